@@ -13,14 +13,21 @@ import type {
   Config,
   ConfigCreateInput,
   Container,
+  ContainerArchiveOptions,
   ContainerChange,
+  ContainerCommitInput,
   ContainerCreateInput,
   ContainerInspect,
+  ContainerLogsOptions,
+  ContainerPathStat,
   ContainerProcess,
   ContainerStats,
   ContainerUpdateInput,
+  ContainerWaitCondition,
+  DistributionInspect,
   ExecConfig,
   ExecInspect,
+  ExecStartConfig,
   HubBuildHistory,
   HubBuildSettings,
   HubRepository,
@@ -28,12 +35,18 @@ import type {
   HubWebhook,
   HubWebhookCreateInput,
   Image,
+  ImageBuildInput,
+  ImageBuildResult,
   ImageHistory,
   ImageInspect,
+  ImageLoadResult,
   ImagePruneResult,
   ImageSearchResult,
+  ImageTransferResult,
+  LogEntry,
   Network,
   NetworkConnectInput,
+  NetworkContainer,
   NetworkCreateInput,
   NetworkDisconnectInput,
   NetworkPruneResult,
@@ -41,6 +54,8 @@ import type {
   PaginatedResponse,
   Plugin,
   PluginPrivilegeRequest,
+  RegistryImageConfig,
+  RegistryManifest,
   Secret,
   SecretCreateInput,
   Service,
@@ -67,11 +82,33 @@ import {
   AuthenticationError,
   ConflictError,
   ConnectionError,
+  DockerApiError,
   NotFoundError,
   parseDockerError,
   RateLimitError,
   ValidationError,
 } from './utils/errors.js';
+import { fromWire, toWire, type WireObject } from './utils/codec.js';
+import {
+  parseBuildOutput,
+  parseJsonStream,
+  parseLoadOutput,
+  parseTransferProgress,
+} from './utils/progress.js';
+import {
+  formatPlatform,
+  MANIFEST_MEDIA_TYPES,
+  nextPageMarker,
+  parseAuthChallenge,
+  registryHost,
+  registryUrlHost,
+  repositoryPath,
+  selectPlatform,
+  sha256Digest,
+  toRegistryImageConfig,
+  toRegistryManifest,
+} from './utils/registry.js';
+import { fromBase64, parseLogStream, readBody } from './utils/streams.js';
 
 // =============================================================================
 // Configuration
@@ -103,11 +140,25 @@ export interface DockerClient {
   removeContainer(id: string, force?: boolean, removeVolumes?: boolean): Promise<void>;
   renameContainer(id: string, name: string): Promise<void>;
   updateContainer(id: string, config: ContainerUpdateInput): Promise<{ warnings: string[] }>;
-  getContainerLogs(id: string, tail?: number, timestamps?: boolean): Promise<string>;
+  getContainerLogs(id: string, options?: ContainerLogsOptions): Promise<LogEntry[]>;
   getContainerStats(id: string, stream?: boolean): Promise<ContainerStats>;
   getContainerTop(id: string, psArgs?: string): Promise<ContainerProcess>;
   getContainerChanges(id: string): Promise<ContainerChange[]>;
-  waitContainer(id: string): Promise<{ statusCode: number; error?: { message: string } }>;
+  statContainerPath(id: string, path: string): Promise<ContainerPathStat>;
+  getContainerArchive(id: string, path: string): Promise<ReadableStream<Uint8Array>>;
+  putContainerArchive(
+    id: string,
+    path: string,
+    archive: Uint8Array | ReadableStream<Uint8Array>,
+    options?: ContainerArchiveOptions
+  ): Promise<void>;
+  waitContainer(
+    id: string,
+    condition?: ContainerWaitCondition,
+    signal?: AbortSignal
+  ): Promise<{ statusCode: number; error?: { message: string } }>;
+  commitContainer(id: string, options?: ContainerCommitInput): Promise<{ id: string }>;
+  exportContainer(id: string): Promise<ReadableStream<Uint8Array>>;
   pruneContainers(filters?: Filters): Promise<{ containersDeleted: string[]; spaceReclaimed: number }>;
 
   // =========================================================================
@@ -116,12 +167,16 @@ export interface DockerClient {
   listImages(all?: boolean, filters?: Filters): Promise<Image[]>;
   inspectImage(name: string): Promise<ImageInspect>;
   getImageHistory(name: string): Promise<ImageHistory[]>;
-  pullImage(image: string, tag?: string, auth?: AuthConfig): Promise<string>;
-  pushImage(name: string, tag?: string, auth?: AuthConfig): Promise<string>;
+  pullImage(image: string, tag?: string, auth?: AuthConfig): Promise<ImageTransferResult>;
+  pushImage(name: string, tag?: string, auth?: AuthConfig): Promise<ImageTransferResult>;
   tagImage(name: string, repo: string, tag?: string): Promise<void>;
   removeImage(name: string, force?: boolean, noPrune?: boolean): Promise<Array<{ untagged?: string; deleted?: string }>>;
   searchImages(term: string, limit?: number): Promise<ImageSearchResult[]>;
   pruneImages(dangling?: boolean, filters?: Filters): Promise<ImagePruneResult>;
+  buildImage(options: ImageBuildInput, context?: Uint8Array): Promise<ImageBuildResult>;
+  saveImages(names: string[]): Promise<ReadableStream<Uint8Array>>;
+  loadImage(archive: Uint8Array | ReadableStream<Uint8Array>): Promise<ImageLoadResult>;
+  inspectDistribution(name: string, auth?: AuthConfig): Promise<DistributionInspect>;
 
   // =========================================================================
   // Networks
@@ -147,7 +202,7 @@ export interface DockerClient {
   // Exec
   // =========================================================================
   createExec(containerId: string, config: ExecConfig): Promise<{ id: string }>;
-  startExec(id: string, detach?: boolean, tty?: boolean): Promise<string>;
+  startExec(id: string, detach?: boolean, tty?: boolean, signal?: AbortSignal): Promise<string>;
   inspectExec(id: string): Promise<ExecInspect>;
   resizeExec(id: string, height: number, width: number): Promise<void>;
 
@@ -243,6 +298,16 @@ export interface DockerClient {
   hubGetBuildSettings(namespace: string, repository: string): Promise<HubBuildSettings>;
   hubGetBuildHistory(namespace: string, repository: string, page?: number, pageSize?: number): Promise<PaginatedResponse<HubBuildHistory>>;
   hubTriggerBuild(namespace: string, repository: string, sourceType?: string, sourceName?: string): Promise<void>;
+
+  // =========================================================================
+  // Registry (OCI Distribution API)
+  // =========================================================================
+  registryListRepositories(limit?: number, last?: string): Promise<PaginatedResponse<{ repository: string }>>;
+  registryListTags(repository: string, limit?: number, last?: string): Promise<PaginatedResponse<{ tag: string }>>;
+  registryGetManifest(repository: string, reference: string): Promise<RegistryManifest>;
+  registryGetImageConfig(repository: string, reference: string, platform?: string): Promise<RegistryImageConfig>;
+  registryDeleteManifest(repository: string, digest: string): Promise<void>;
+  registryBlobExists(repository: string, digest: string): Promise<{ exists: boolean; size?: number }>;
 }
 
 // =============================================================================
@@ -253,6 +318,8 @@ class DockerClientImpl implements DockerClient {
   private credentials: TenantCredentials;
   private dockerBaseUrl: string;
   private hubToken?: string;
+  /** Registry Authorization header values by token scope */
+  private registryAuth = new Map<string, string>();
 
   constructor(credentials: TenantCredentials) {
     this.credentials = credentials;
@@ -281,6 +348,25 @@ class DockerClientImpl implements DockerClient {
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
+    const response = await this.dockerFetch(endpoint, options);
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const contentType = response.headers.get('content-type');
+    if (contentType?.includes('application/json')) {
+      return response.json() as Promise<T>;
+    }
+
+    return response.text() as unknown as T;
+  }
+
+  /**
+   * Send a request to the Docker Engine API and return the raw response.
+   * Used directly for endpoints that return binary or streamed bodies.
+   */
+  private async dockerFetch(endpoint: string, options: RequestInit = {}): Promise<Response> {
     if (!this.dockerBaseUrl) {
       throw new ConnectionError('Docker host not configured. Provide X-Docker-Host header.');
     }
@@ -304,16 +390,7 @@ class DockerClientImpl implements DockerClient {
         throw parseDockerError(response.status, errorBody);
       }
 
-      if (response.status === 204) {
-        return undefined as T;
-      }
-
-      const contentType = response.headers.get('content-type');
-      if (contentType?.includes('application/json')) {
-        return response.json() as Promise<T>;
-      }
-
-      return response.text() as unknown as T;
+      return response;
     } catch (error) {
       if (
         error instanceof AuthenticationError ||
@@ -332,6 +409,13 @@ class DockerClientImpl implements DockerClient {
     }
   }
 
+  /**
+   * Body of a streaming response (an empty stream when the daemon sent no body)
+   */
+  private responseStream(response: Response): ReadableStream<Uint8Array> {
+    return response.body ?? new ReadableStream<Uint8Array>({ start: (c) => c.close() });
+  }
+
   private async hubRequest<T>(
     endpoint: string,
     options: RequestInit = {},
@@ -392,6 +476,148 @@ class DockerClientImpl implements DockerClient {
     }
   }
 
+  /**
+   * Send a request to the registry configured with X-Docker-Registry. Answers a 401
+   * challenge with Basic auth or a Bearer token for the requested scope, and caches
+   * the result for later requests with the same scope.
+   */
+  private async registryFetch(
+    path: string,
+    scope: string,
+    options: RequestInit = {}
+  ): Promise<Response> {
+    if (!this.credentials.registryUrl) {
+      throw new ConnectionError('Registry not configured. Provide X-Docker-Registry header.');
+    }
+    const base = /^https?:\/\//.test(this.credentials.registryUrl)
+      ? this.credentials.registryUrl
+      : `https://${this.credentials.registryUrl}`;
+    const url = `${base.replace(/\/+$/, '').replace(/\/v2$/, '')}/v2${path}`;
+
+    const send = (authorization?: string) =>
+      fetch(url, {
+        ...options,
+        headers: {
+          ...(options.headers as Record<string, string>),
+          ...(authorization && { Authorization: authorization }),
+        },
+      });
+
+    try {
+      let response = await send(this.registryAuth.get(scope));
+      if (response.status === 401) {
+        const authorization = await this.registryAuthorize(
+          response.headers.get('WWW-Authenticate'),
+          scope
+        );
+        if (authorization) {
+          response = await send(authorization);
+        }
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        throw new AuthenticationError(
+          'Registry authentication failed. Check X-Docker-Registry-Username and X-Docker-Registry-Password.'
+        );
+      }
+      if (response.status === 429) {
+        const retryAfter = response.headers.get('Retry-After');
+        throw new RateLimitError('Registry rate limit exceeded', retryAfter ? Number.parseInt(retryAfter, 10) : 60);
+      }
+      if (response.status === 404) {
+        throw new NotFoundError('Registry resource', path);
+      }
+      if (!response.ok) {
+        const body = (await response.json().catch(() => ({}))) as {
+          errors?: Array<{ code?: string; message?: string }>;
+        };
+        const error = body.errors?.[0];
+        throw new DockerApiError(
+          error?.message ?? `Registry error: ${response.status}`,
+          response.status,
+          error?.code,
+          response.status >= 500
+        );
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof DockerApiError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new ConnectionError(`Failed to connect to registry: ${error.message}`);
+      }
+      throw new ConnectionError('Failed to connect to registry');
+    }
+  }
+
+  /**
+   * Answer a registry auth challenge. Returns the Authorization header value, or
+   * undefined when the challenge cannot be answered.
+   */
+  private async registryAuthorize(header: string | null, scope: string): Promise<string | undefined> {
+    const { registryUsername, registryPassword } = this.credentials;
+    const basic =
+      registryUsername && registryPassword
+        ? `Basic ${btoa(`${registryUsername}:${registryPassword}`)}`
+        : undefined;
+    const challenge = parseAuthChallenge(header ?? '');
+
+    let authorization = challenge.scheme === 'basic' ? basic : undefined;
+    if (challenge.scheme === 'bearer' && challenge.params.realm) {
+      const tokenUrl = new URL(challenge.params.realm);
+      if (challenge.params.service) {
+        tokenUrl.searchParams.set('service', challenge.params.service);
+      }
+      tokenUrl.searchParams.set('scope', challenge.params.scope ?? scope);
+
+      const response = await fetch(tokenUrl, { headers: basic ? { Authorization: basic } : {} });
+      if (!response.ok) {
+        throw new AuthenticationError(
+          `Registry token request failed (${response.status}). Check X-Docker-Registry-Username and X-Docker-Registry-Password.`
+        );
+      }
+      const body = (await response.json()) as { token?: string; access_token?: string };
+      const token = body.token ?? body.access_token;
+      authorization = token ? `Bearer ${token}` : undefined;
+    }
+
+    if (authorization) {
+      this.registryAuth.set(scope, authorization);
+    }
+    return authorization;
+  }
+
+  /**
+   * X-Registry-Auth header for an image. An explicit AuthConfig is used as is;
+   * otherwise credentials are taken from the X-Docker-Registry* headers when the
+   * image is hosted on that registry, or from the Docker Hub headers for Docker Hub
+   * images. Keeps passwords out of tool arguments.
+   */
+  private registryAuthHeaders(image: string | undefined, auth?: AuthConfig): Record<string, string> {
+    const config = auth ?? (image ? this.registryAuthFor(image) : undefined);
+    return config ? { 'X-Registry-Auth': btoa(JSON.stringify(config)) } : {};
+  }
+
+  private registryAuthFor(image: string): AuthConfig | undefined {
+    const host = registryHost(image);
+    const { registryUrl, registryUsername, registryPassword } = this.credentials;
+    if (registryUrl && registryUsername && registryPassword && registryUrlHost(registryUrl) === host) {
+      return { username: registryUsername, password: registryPassword, serveraddress: host };
+    }
+
+    // A Docker Hub access token can be used as the password
+    const { hubUsername, hubPassword, hubToken } = this.credentials;
+    if (host === 'docker.io' && hubUsername && (hubPassword || hubToken)) {
+      return {
+        username: hubUsername,
+        password: hubPassword ?? hubToken,
+        serveraddress: 'https://index.docker.io/v1/',
+      };
+    }
+    return undefined;
+  }
+
   private encodeFilters(filters: Record<string, unknown>): string {
     return encodeURIComponent(JSON.stringify(filters));
   }
@@ -426,7 +652,7 @@ class DockerClientImpl implements DockerClient {
   }
 
   async inspectContainer(id: string): Promise<ContainerInspect> {
-    return this.dockerRequest<ContainerInspect>(`/containers/${id}/json`);
+    return fromWire<ContainerInspect>(await this.dockerRequest<WireObject>(`/containers/${id}/json`));
   }
 
   async createContainer(config: ContainerCreateInput): Promise<{ id: string; warnings: string[] }> {
@@ -437,7 +663,7 @@ class DockerClientImpl implements DockerClient {
     const { name: _, ...body } = config;
     return this.dockerRequest<{ Id: string; Warnings: string[] }>(endpoint, {
       method: 'POST',
-      body: JSON.stringify(this.mapContainerCreateInput(body)),
+      body: JSON.stringify(toWire(body)),
     }).then((r) => ({ id: r.Id, warnings: r.Warnings || [] }));
   }
 
@@ -476,18 +702,26 @@ class DockerClientImpl implements DockerClient {
   async updateContainer(id: string, config: ContainerUpdateInput): Promise<{ warnings: string[] }> {
     return this.dockerRequest<{ Warnings: string[] }>(`/containers/${id}/update`, {
       method: 'POST',
-      body: JSON.stringify(config),
+      body: JSON.stringify(toWire(config)),
     }).then((r) => ({ warnings: r.Warnings || [] }));
   }
 
-  async getContainerLogs(id: string, tail = 100, timestamps = false): Promise<string> {
-    return this.dockerRequest<string>(
-      `/containers/${id}/logs?stdout=true&stderr=true&tail=${tail}&timestamps=${timestamps}`
-    );
+  async getContainerLogs(id: string, options: ContainerLogsOptions = {}): Promise<LogEntry[]> {
+    const { tail = 100, timestamps = false, stdout = true, stderr = true, followSeconds } = options;
+    let endpoint = `/containers/${id}/logs?stdout=${stdout}&stderr=${stderr}&tail=${tail}&timestamps=${timestamps}`;
+    if (options.since !== undefined) endpoint += `&since=${options.since}`;
+    if (options.until !== undefined) endpoint += `&until=${options.until}`;
+    if (followSeconds) endpoint += '&follow=true';
+
+    const response = await this.dockerFetch(endpoint);
+    const bytes = await readBody(response.body, followSeconds ? followSeconds * 1000 : undefined);
+    return parseLogStream(bytes, { contentType: response.headers.get('content-type'), timestamps });
   }
 
   async getContainerStats(id: string, stream = false): Promise<ContainerStats> {
-    return this.dockerRequest<ContainerStats>(`/containers/${id}/stats?stream=${stream}`);
+    return fromWire<ContainerStats>(
+      await this.dockerRequest<WireObject>(`/containers/${id}/stats?stream=${stream}`)
+    );
   }
 
   async getContainerTop(id: string, psArgs = '-ef'): Promise<ContainerProcess> {
@@ -504,10 +738,53 @@ class DockerClientImpl implements DockerClient {
     return result?.map((c) => ({ path: c.Path, kind: c.Kind })) || [];
   }
 
-  async waitContainer(id: string): Promise<{ statusCode: number; error?: { message: string } }> {
+  async statContainerPath(id: string, path: string): Promise<ContainerPathStat> {
+    const response = await this.dockerFetch(
+      `/containers/${id}/archive?path=${encodeURIComponent(path)}`,
+      { method: 'HEAD' }
+    );
+    const header = response.headers.get('X-Docker-Container-Path-Stat');
+    if (!header) {
+      throw new DockerApiError(`No path stat returned for ${path}`, 500);
+    }
+    return JSON.parse(new TextDecoder().decode(fromBase64(header))) as ContainerPathStat;
+  }
+
+  async getContainerArchive(id: string, path: string): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.dockerFetch(
+      `/containers/${id}/archive?path=${encodeURIComponent(path)}`
+    );
+    return this.responseStream(response);
+  }
+
+  async putContainerArchive(
+    id: string,
+    path: string,
+    archive: Uint8Array | ReadableStream<Uint8Array>,
+    options: ContainerArchiveOptions = {}
+  ): Promise<void> {
+    let endpoint = `/containers/${id}/archive?path=${encodeURIComponent(path)}`;
+    if (options.noOverwriteDirNonDir) endpoint += '&noOverwriteDirNonDir=true';
+    if (options.copyUidGid) endpoint += '&copyUIDGID=true';
+    await this.dockerFetch(endpoint, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/x-tar' },
+      body: archive,
+    });
+  }
+
+  async waitContainer(
+    id: string,
+    condition?: ContainerWaitCondition,
+    signal?: AbortSignal
+  ): Promise<{ statusCode: number; error?: { message: string } }> {
+    let endpoint = `/containers/${id}/wait`;
+    if (condition) {
+      endpoint += `?condition=${condition}`;
+    }
     const result = await this.dockerRequest<{ StatusCode: number; Error?: { Message: string } }>(
-      `/containers/${id}/wait`,
-      { method: 'POST' }
+      endpoint,
+      { method: 'POST', signal }
     );
     return {
       statusCode: result.StatusCode,
@@ -515,6 +792,24 @@ class DockerClientImpl implements DockerClient {
     };
   }
 
+  async commitContainer(id: string, options: ContainerCommitInput = {}): Promise<{ id: string }> {
+    const params = new URLSearchParams({ container: id, pause: String(options.pause ?? true) });
+    if (options.repo) params.set('repo', options.repo);
+    if (options.tag) params.set('tag', options.tag);
+    if (options.comment) params.set('comment', options.comment);
+    if (options.author) params.set('author', options.author);
+    for (const change of options.changes ?? []) {
+      params.append('changes', change);
+    }
+    const result = await this.dockerRequest<{ Id: string }>(`/commit?${params}`, { method: 'POST' });
+    return { id: result.Id };
+  }
+
+  async exportContainer(id: string): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.dockerFetch(`/containers/${id}/export`);
+    return this.responseStream(response);
+  }
+
   async pruneContainers(filters?: Filters): Promise<{ containersDeleted: string[]; spaceReclaimed: number }> {
     let endpoint = '/containers/prune';
     if (filters) {
@@ -544,7 +839,9 @@ class DockerClientImpl implements DockerClient {
   }
 
   async inspectImage(name: string): Promise<ImageInspect> {
-    return this.dockerRequest<ImageInspect>(`/images/${encodeURIComponent(name)}/json`);
+    return fromWire<ImageInspect>(
+      await this.dockerRequest<WireObject>(`/images/${encodeURIComponent(name)}/json`)
+    );
   }
 
   async getImageHistory(name: string): Promise<ImageHistory[]> {
@@ -561,27 +858,27 @@ class DockerClientImpl implements DockerClient {
     }));
   }
 
-  async pullImage(image: string, tag = 'latest', auth?: AuthConfig): Promise<string> {
-    const headers: Record<string, string> = {};
-    if (auth) {
-      headers['X-Registry-Auth'] = btoa(JSON.stringify(auth));
-    }
-    return this.dockerRequest<string>(
+  async pullImage(image: string, tag = 'latest', auth?: AuthConfig): Promise<ImageTransferResult> {
+    const headers = this.registryAuthHeaders(image, auth);
+    const response = await this.dockerFetch(
       `/images/create?fromImage=${encodeURIComponent(image)}&tag=${encodeURIComponent(tag)}`,
       { method: 'POST', headers }
     );
+    return parseTransferProgress(parseJsonStream(await response.text()), 'pull', `${image}:${tag}`);
   }
 
-  async pushImage(name: string, tag?: string, auth?: AuthConfig): Promise<string> {
+  async pushImage(name: string, tag?: string, auth?: AuthConfig): Promise<ImageTransferResult> {
     let endpoint = `/images/${encodeURIComponent(name)}/push`;
     if (tag) {
       endpoint += `?tag=${encodeURIComponent(tag)}`;
     }
-    const headers: Record<string, string> = {};
-    if (auth) {
-      headers['X-Registry-Auth'] = btoa(JSON.stringify(auth));
-    }
-    return this.dockerRequest<string>(endpoint, { method: 'POST', headers });
+    const headers = this.registryAuthHeaders(name, auth);
+    const response = await this.dockerFetch(endpoint, { method: 'POST', headers });
+    return parseTransferProgress(
+      parseJsonStream(await response.text()),
+      'push',
+      tag ? `${name}:${tag}` : name
+    );
   }
 
   async tagImage(name: string, repo: string, tag = 'latest'): Promise<void> {
@@ -626,6 +923,53 @@ class DockerClientImpl implements DockerClient {
     };
   }
 
+  async buildImage(options: ImageBuildInput, context?: Uint8Array): Promise<ImageBuildResult> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(options)) {
+      if (value === undefined) continue;
+      if (key === 't') {
+        for (const tag of value as string[]) params.append('t', tag);
+      } else if (typeof value === 'object') {
+        // buildargs, labels and cachefrom are passed as JSON
+        params.set(key, JSON.stringify(value));
+      } else {
+        params.set(key, String(value));
+      }
+    }
+
+    const response = await this.dockerFetch(`/build?${params}`, {
+      method: 'POST',
+      headers: context ? { 'Content-Type': 'application/x-tar' } : {},
+      body: context,
+    });
+    return parseBuildOutput(parseJsonStream(await response.text()));
+  }
+
+  async saveImages(names: string[]): Promise<ReadableStream<Uint8Array>> {
+    const params = new URLSearchParams();
+    for (const name of names) params.append('names', name);
+    const response = await this.dockerFetch(`/images/get?${params}`);
+    return this.responseStream(response);
+  }
+
+  async loadImage(archive: Uint8Array | ReadableStream<Uint8Array>): Promise<ImageLoadResult> {
+    const response = await this.dockerFetch('/images/load', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-tar' },
+      body: archive,
+    });
+    return parseLoadOutput(parseJsonStream(await response.text()));
+  }
+
+  async inspectDistribution(name: string, auth?: AuthConfig): Promise<DistributionInspect> {
+    const headers = this.registryAuthHeaders(name, auth);
+    return fromWire<DistributionInspect>(
+      await this.dockerRequest<WireObject>(`/distribution/${encodeURIComponent(name)}/json`, {
+        headers,
+      })
+    );
+  }
+
   // ===========================================================================
   // Networks
   // ===========================================================================
@@ -647,18 +991,7 @@ class DockerClientImpl implements DockerClient {
   async createNetwork(config: NetworkCreateInput): Promise<{ id: string; warning: string }> {
     const result = await this.dockerRequest<{ Id: string; Warning: string }>('/networks/create', {
       method: 'POST',
-      body: JSON.stringify({
-        Name: config.name,
-        CheckDuplicate: config.checkDuplicate,
-        Driver: config.driver,
-        Internal: config.internal,
-        Attachable: config.attachable,
-        Ingress: config.ingress,
-        IPAM: config.ipam,
-        EnableIPv6: config.enableIPv6,
-        Options: config.options,
-        Labels: config.labels,
-      }),
+      body: JSON.stringify(toWire(config)),
     });
     return { id: result.Id, warning: result.Warning };
   }
@@ -670,20 +1003,14 @@ class DockerClientImpl implements DockerClient {
   async connectNetwork(id: string, config: NetworkConnectInput): Promise<void> {
     await this.dockerRequest(`/networks/${id}/connect`, {
       method: 'POST',
-      body: JSON.stringify({
-        Container: config.container,
-        EndpointConfig: config.endpointConfig,
-      }),
+      body: JSON.stringify(toWire(config)),
     });
   }
 
   async disconnectNetwork(id: string, config: NetworkDisconnectInput): Promise<void> {
     await this.dockerRequest(`/networks/${id}/disconnect`, {
       method: 'POST',
-      body: JSON.stringify({
-        Container: config.container,
-        Force: config.force,
-      }),
+      body: JSON.stringify(toWire(config)),
     });
   }
 
@@ -720,12 +1047,7 @@ class DockerClientImpl implements DockerClient {
   async createVolume(config?: VolumeCreateInput): Promise<Volume> {
     const result = await this.dockerRequest<Record<string, unknown>>('/volumes/create', {
       method: 'POST',
-      body: JSON.stringify({
-        Name: config?.name,
-        Driver: config?.driver,
-        DriverOpts: config?.driverOpts,
-        Labels: config?.labels,
-      }),
+      body: JSON.stringify(toWire(config ?? {})),
     });
     return this.mapVolume(result);
   }
@@ -756,26 +1078,21 @@ class DockerClientImpl implements DockerClient {
   async createExec(containerId: string, config: ExecConfig): Promise<{ id: string }> {
     const result = await this.dockerRequest<{ Id: string }>(`/containers/${containerId}/exec`, {
       method: 'POST',
-      body: JSON.stringify({
-        AttachStdin: config.attachStdin,
-        AttachStdout: config.attachStdout,
-        AttachStderr: config.attachStderr,
-        DetachKeys: config.detachKeys,
-        Tty: config.tty,
-        Env: config.env,
-        Cmd: config.cmd,
-        Privileged: config.privileged,
-        User: config.user,
-        WorkingDir: config.workingDir,
-      }),
+      body: JSON.stringify(toWire(config)),
     });
     return { id: result.Id };
   }
 
-  async startExec(id: string, detach = false, tty = false): Promise<string> {
+  async startExec(
+    id: string,
+    detach = false,
+    tty = false,
+    signal?: AbortSignal
+  ): Promise<string> {
     return this.dockerRequest<string>(`/exec/${id}/start`, {
       method: 'POST',
-      body: JSON.stringify({ Detach: detach, Tty: tty }),
+      body: JSON.stringify(toWire<ExecStartConfig>({ detach, tty })),
+      signal,
     });
   }
 
@@ -811,11 +1128,11 @@ class DockerClientImpl implements DockerClient {
   // ===========================================================================
 
   async getSystemInfo(): Promise<SystemInfo> {
-    return this.dockerRequest<SystemInfo>('/info');
+    return fromWire<SystemInfo>(await this.dockerRequest<WireObject>('/info'));
   }
 
   async getVersion(): Promise<SystemVersion> {
-    return this.dockerRequest<SystemVersion>('/version');
+    return fromWire<SystemVersion>(await this.dockerRequest<WireObject>('/version'));
   }
 
   async ping(): Promise<string> {
@@ -823,7 +1140,7 @@ class DockerClientImpl implements DockerClient {
   }
 
   async getDataUsage(): Promise<SystemDataUsage> {
-    return this.dockerRequest<SystemDataUsage>('/system/df');
+    return fromWire<SystemDataUsage>(await this.dockerRequest<WireObject>('/system/df'));
   }
 
   async getEvents(since?: number, until?: number, filters?: Record<string, string[]>): Promise<SystemEvent[]> {
@@ -831,14 +1148,15 @@ class DockerClientImpl implements DockerClient {
     if (since) endpoint += `since=${since}&`;
     if (until) endpoint += `until=${until}&`;
     if (filters) endpoint += `filters=${this.encodeFilters(filters)}`;
-    return this.dockerRequest<SystemEvent[]>(endpoint);
+    return fromWire<SystemEvent[]>(await this.dockerRequest<WireObject[]>(endpoint));
   }
 
   async auth(config: AuthConfig): Promise<AuthResponse> {
-    return this.dockerRequest<AuthResponse>('/auth', {
+    const result = await this.dockerRequest<WireObject>('/auth', {
       method: 'POST',
       body: JSON.stringify(config),
     });
+    return fromWire<AuthResponse>(result);
   }
 
   // ===========================================================================
@@ -846,35 +1164,20 @@ class DockerClientImpl implements DockerClient {
   // ===========================================================================
 
   async inspectSwarm(): Promise<SwarmSpec> {
-    return this.dockerRequest<SwarmSpec>('/swarm');
+    return fromWire<SwarmSpec>(await this.dockerRequest<WireObject>('/swarm'));
   }
 
   async initSwarm(config: SwarmInitInput): Promise<string> {
     return this.dockerRequest<string>('/swarm/init', {
       method: 'POST',
-      body: JSON.stringify({
-        ListenAddr: config.listenAddr,
-        AdvertiseAddr: config.advertiseAddr,
-        DataPathAddr: config.dataPathAddr,
-        DataPathPort: config.dataPathPort,
-        DefaultAddrPool: config.defaultAddrPool,
-        ForceNewCluster: config.forceNewCluster,
-        SubnetSize: config.subnetSize,
-        Spec: config.spec,
-      }),
+      body: JSON.stringify(toWire(config)),
     });
   }
 
   async joinSwarm(config: SwarmJoinInput): Promise<void> {
     await this.dockerRequest('/swarm/join', {
       method: 'POST',
-      body: JSON.stringify({
-        ListenAddr: config.listenAddr,
-        AdvertiseAddr: config.advertiseAddr,
-        DataPathAddr: config.dataPathAddr,
-        RemoteAddrs: config.remoteAddrs,
-        JoinToken: config.joinToken,
-      }),
+      body: JSON.stringify(toWire(config)),
     });
   }
 
@@ -890,7 +1193,7 @@ class DockerClientImpl implements DockerClient {
   ): Promise<void> {
     await this.dockerRequest(
       `/swarm/update?version=${version}&rotateWorkerToken=${rotateWorkerToken}&rotateManagerToken=${rotateManagerToken}`,
-      { method: 'POST', body: JSON.stringify(spec) }
+      { method: 'POST', body: JSON.stringify(toWire(spec)) }
     );
   }
 
@@ -902,7 +1205,7 @@ class DockerClientImpl implements DockerClient {
   async unlockSwarm(unlockKey: string): Promise<void> {
     await this.dockerRequest('/swarm/unlock', {
       method: 'POST',
-      body: JSON.stringify({ UnlockKey: unlockKey }),
+      body: JSON.stringify(toWire({ unlockKey })),
     });
   }
 
@@ -915,11 +1218,11 @@ class DockerClientImpl implements DockerClient {
     if (filters) {
       endpoint += `?filters=${this.encodeFilters(filters)}`;
     }
-    return this.dockerRequest<SwarmNode[]>(endpoint);
+    return fromWire<SwarmNode[]>(await this.dockerRequest<WireObject[]>(endpoint));
   }
 
   async inspectNode(id: string): Promise<SwarmNode> {
-    return this.dockerRequest<SwarmNode>(`/nodes/${id}`);
+    return fromWire<SwarmNode>(await this.dockerRequest<WireObject>(`/nodes/${id}`));
   }
 
   async removeNode(id: string, force = false): Promise<void> {
@@ -929,7 +1232,7 @@ class DockerClientImpl implements DockerClient {
   async updateNode(id: string, version: number, spec: NodeSpec): Promise<void> {
     await this.dockerRequest(`/nodes/${id}/update?version=${version}`, {
       method: 'POST',
-      body: JSON.stringify(spec),
+      body: JSON.stringify(toWire(spec)),
     });
   }
 
@@ -942,34 +1245,28 @@ class DockerClientImpl implements DockerClient {
     if (filters) {
       endpoint += `?filters=${this.encodeFilters(filters)}`;
     }
-    return this.dockerRequest<Service[]>(endpoint);
+    return fromWire<Service[]>(await this.dockerRequest<WireObject[]>(endpoint));
   }
 
   async inspectService(id: string): Promise<Service> {
-    return this.dockerRequest<Service>(`/services/${id}`);
+    return fromWire<Service>(await this.dockerRequest<WireObject>(`/services/${id}`));
   }
 
   async createService(spec: ServiceSpec, auth?: AuthConfig): Promise<{ id: string; warnings: string[] }> {
-    const headers: Record<string, string> = {};
-    if (auth) {
-      headers['X-Registry-Auth'] = btoa(JSON.stringify(auth));
-    }
+    const headers = this.registryAuthHeaders(spec.taskTemplate?.containerSpec?.image, auth);
     const result = await this.dockerRequest<{ ID: string; Warnings: string[] }>('/services/create', {
       method: 'POST',
-      body: JSON.stringify(spec),
+      body: JSON.stringify(toWire(spec)),
       headers,
     });
     return { id: result.ID, warnings: result.Warnings || [] };
   }
 
   async updateService(id: string, version: number, spec: ServiceSpec, auth?: AuthConfig): Promise<{ warnings: string[] }> {
-    const headers: Record<string, string> = {};
-    if (auth) {
-      headers['X-Registry-Auth'] = btoa(JSON.stringify(auth));
-    }
+    const headers = this.registryAuthHeaders(spec.taskTemplate?.containerSpec?.image, auth);
     const result = await this.dockerRequest<{ Warnings: string[] }>(`/services/${id}/update?version=${version}`, {
       method: 'POST',
-      body: JSON.stringify(spec),
+      body: JSON.stringify(toWire(spec)),
       headers,
     });
     return { warnings: result.Warnings || [] };
@@ -994,11 +1291,11 @@ class DockerClientImpl implements DockerClient {
     if (filters) {
       endpoint += `?filters=${this.encodeFilters(filters)}`;
     }
-    return this.dockerRequest<Task[]>(endpoint);
+    return fromWire<Task[]>(await this.dockerRequest<WireObject[]>(endpoint));
   }
 
   async inspectTask(id: string): Promise<Task> {
-    return this.dockerRequest<Task>(`/tasks/${id}`);
+    return fromWire<Task>(await this.dockerRequest<WireObject>(`/tasks/${id}`));
   }
 
   async getTaskLogs(id: string, tail = 100, timestamps = false): Promise<string> {
@@ -1016,23 +1313,17 @@ class DockerClientImpl implements DockerClient {
     if (filters) {
       endpoint += `?filters=${this.encodeFilters(filters)}`;
     }
-    return this.dockerRequest<Secret[]>(endpoint);
+    return fromWire<Secret[]>(await this.dockerRequest<WireObject[]>(endpoint));
   }
 
   async inspectSecret(id: string): Promise<Secret> {
-    return this.dockerRequest<Secret>(`/secrets/${id}`);
+    return fromWire<Secret>(await this.dockerRequest<WireObject>(`/secrets/${id}`));
   }
 
   async createSecret(config: SecretCreateInput): Promise<{ id: string }> {
     const result = await this.dockerRequest<{ ID: string }>('/secrets/create', {
       method: 'POST',
-      body: JSON.stringify({
-        Name: config.name,
-        Labels: config.labels,
-        Data: config.data,
-        Driver: config.driver,
-        Templating: config.templating,
-      }),
+      body: JSON.stringify(toWire(config)),
     });
     return { id: result.ID };
   }
@@ -1044,7 +1335,7 @@ class DockerClientImpl implements DockerClient {
   async updateSecret(id: string, version: number, spec: SecretCreateInput): Promise<void> {
     await this.dockerRequest(`/secrets/${id}/update?version=${version}`, {
       method: 'POST',
-      body: JSON.stringify(spec),
+      body: JSON.stringify(toWire(spec)),
     });
   }
 
@@ -1057,22 +1348,17 @@ class DockerClientImpl implements DockerClient {
     if (filters) {
       endpoint += `?filters=${this.encodeFilters(filters)}`;
     }
-    return this.dockerRequest<Config[]>(endpoint);
+    return fromWire<Config[]>(await this.dockerRequest<WireObject[]>(endpoint));
   }
 
   async inspectConfig(id: string): Promise<Config> {
-    return this.dockerRequest<Config>(`/configs/${id}`);
+    return fromWire<Config>(await this.dockerRequest<WireObject>(`/configs/${id}`));
   }
 
   async createConfig(config: ConfigCreateInput): Promise<{ id: string }> {
     const result = await this.dockerRequest<{ ID: string }>('/configs/create', {
       method: 'POST',
-      body: JSON.stringify({
-        Name: config.name,
-        Labels: config.labels,
-        Data: config.data,
-        Templating: config.templating,
-      }),
+      body: JSON.stringify(toWire(config)),
     });
     return { id: result.ID };
   }
@@ -1084,7 +1370,7 @@ class DockerClientImpl implements DockerClient {
   async updateConfig(id: string, version: number, spec: ConfigCreateInput): Promise<void> {
     await this.dockerRequest(`/configs/${id}/update?version=${version}`, {
       method: 'POST',
-      body: JSON.stringify(spec),
+      body: JSON.stringify(toWire(spec)),
     });
   }
 
@@ -1097,17 +1383,20 @@ class DockerClientImpl implements DockerClient {
     if (filters) {
       endpoint += `?filters=${this.encodeFilters(filters)}`;
     }
-    return this.dockerRequest<Plugin[]>(endpoint);
+    return fromWire<Plugin[]>(await this.dockerRequest<WireObject[]>(endpoint));
   }
 
   async inspectPlugin(name: string): Promise<Plugin> {
-    return this.dockerRequest<Plugin>(`/plugins/${encodeURIComponent(name)}/json`);
+    return fromWire<Plugin>(
+      await this.dockerRequest<WireObject>(`/plugins/${encodeURIComponent(name)}/json`)
+    );
   }
 
   async getPluginPrivileges(remote: string): Promise<PluginPrivilegeRequest[]> {
-    return this.dockerRequest<PluginPrivilegeRequest[]>(
+    const result = await this.dockerRequest<WireObject[]>(
       `/plugins/privileges?remote=${encodeURIComponent(remote)}`
     );
+    return fromWire<PluginPrivilegeRequest[]>(result);
   }
 
   async installPlugin(
@@ -1121,7 +1410,7 @@ class DockerClientImpl implements DockerClient {
     }
     await this.dockerRequest(endpoint, {
       method: 'POST',
-      body: privileges ? JSON.stringify(privileges) : undefined,
+      body: privileges ? JSON.stringify(privileges.map((p) => toWire(p))) : undefined,
     });
   }
 
@@ -1146,7 +1435,7 @@ class DockerClientImpl implements DockerClient {
       `/plugins/${encodeURIComponent(name)}/upgrade?remote=${encodeURIComponent(remote)}`,
       {
         method: 'POST',
-        body: privileges ? JSON.stringify(privileges) : undefined,
+        body: privileges ? JSON.stringify(privileges.map((p) => toWire(p))) : undefined,
       }
     );
   }
@@ -1315,6 +1604,113 @@ class DockerClientImpl implements DockerClient {
     );
   }
 
+  // ===========================================================================
+  // Registry (OCI Distribution API)
+  // ===========================================================================
+
+  async registryListRepositories(
+    limit = 100,
+    last?: string
+  ): Promise<PaginatedResponse<{ repository: string }>> {
+    const params = new URLSearchParams({ n: String(limit) });
+    if (last) params.set('last', last);
+    const response = await this.registryFetch(`/_catalog?${params}`, 'registry:catalog:*');
+    const body = (await response.json()) as { repositories?: string[] };
+    const items = (body.repositories ?? []).map((repository) => ({ repository }));
+    const next = nextPageMarker(response.headers.get('Link'));
+    return { items, count: items.length, hasMore: next !== undefined, nextCursor: next };
+  }
+
+  async registryListTags(
+    repository: string,
+    limit = 100,
+    last?: string
+  ): Promise<PaginatedResponse<{ tag: string }>> {
+    const params = new URLSearchParams({ n: String(limit) });
+    if (last) params.set('last', last);
+    const response = await this.registryFetch(
+      `/${repositoryPath(repository)}/tags/list?${params}`,
+      `repository:${repository}:pull`
+    );
+    const body = (await response.json()) as { tags?: string[] | null };
+    const items = (body.tags ?? []).map((tag) => ({ tag }));
+    const next = nextPageMarker(response.headers.get('Link'));
+    return { items, count: items.length, hasMore: next !== undefined, nextCursor: next };
+  }
+
+  async registryGetManifest(repository: string, reference: string): Promise<RegistryManifest> {
+    const response = await this.registryFetch(
+      `/${repositoryPath(repository)}/manifests/${encodeURIComponent(reference)}`,
+      `repository:${repository}:pull`,
+      { headers: { Accept: MANIFEST_MEDIA_TYPES.join(', ') } }
+    );
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const body = JSON.parse(new TextDecoder().decode(bytes)) as Record<string, unknown>;
+    return toRegistryManifest(body, {
+      repository,
+      reference,
+      digest: response.headers.get('Docker-Content-Digest') ?? (await sha256Digest(bytes)),
+      mediaType: response.headers.get('Content-Type')?.split(';')[0] ?? '',
+    });
+  }
+
+  async registryGetImageConfig(
+    repository: string,
+    reference: string,
+    platform = 'linux/amd64'
+  ): Promise<RegistryImageConfig> {
+    let manifest = await this.registryGetManifest(repository, reference);
+    if (manifest.kind === 'index') {
+      const entry = selectPlatform(manifest.manifests ?? [], platform);
+      if (!entry) {
+        const available = (manifest.manifests ?? [])
+          .flatMap((m) => (m.platform ? [formatPlatform(m.platform)] : []))
+          .join(', ');
+        throw new NotFoundError('Platform manifest', `${repository}:${reference} ${platform} (available: ${available})`);
+      }
+      manifest = await this.registryGetManifest(repository, entry.digest);
+    }
+    if (!manifest.config) {
+      throw new DockerApiError(`Manifest ${manifest.digest} has no image config`, 422, 'NO_IMAGE_CONFIG');
+    }
+
+    const response = await this.registryFetch(
+      `/${repositoryPath(repository)}/blobs/${manifest.config.digest}`,
+      `repository:${repository}:pull`
+    );
+    return toRegistryImageConfig((await response.json()) as Record<string, unknown>, {
+      repository,
+      reference,
+      manifestDigest: manifest.digest,
+      configDigest: manifest.config.digest,
+    });
+  }
+
+  async registryDeleteManifest(repository: string, digest: string): Promise<void> {
+    await this.registryFetch(
+      `/${repositoryPath(repository)}/manifests/${digest}`,
+      `repository:${repository}:delete`,
+      { method: 'DELETE' }
+    );
+  }
+
+  async registryBlobExists(repository: string, digest: string): Promise<{ exists: boolean; size?: number }> {
+    try {
+      const response = await this.registryFetch(
+        `/${repositoryPath(repository)}/blobs/${digest}`,
+        `repository:${repository}:pull`,
+        { method: 'HEAD' }
+      );
+      const length = response.headers.get('Content-Length');
+      return { exists: true, size: length ? Number.parseInt(length, 10) : undefined };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return { exists: false };
+      }
+      throw error;
+    }
+  }
+
   // ===========================================================================
   // Mappers
   // ===========================================================================
@@ -1351,37 +1747,6 @@ class DockerClientImpl implements DockerClient {
     };
   }
 
-  private mapContainerCreateInput(config: Omit<ContainerCreateInput, 'name'>): Record<string, unknown> {
-    return {
-      Hostname: config.hostname,
-      Domainname: config.domainname,
-      User: config.user,
-      AttachStdin: config.attachStdin,
-      AttachStdout: config.attachStdout,
-      AttachStderr: config.attachStderr,
-      ExposedPorts: config.exposedPorts,
-      Tty: config.tty,
-      OpenStdin: config.openStdin,
-      StdinOnce: config.stdinOnce,
-      Env: config.env,
-      Cmd: config.cmd,
-      Healthcheck: config.healthcheck,
-      ArgsEscaped: config.argsEscaped,
-      Image: config.image,
-      Volumes: config.volumes,
-      WorkingDir: config.workingDir,
-      Entrypoint: config.entrypoint,
-      NetworkDisabled: config.networkDisabled,
-      MacAddress: config.macAddress,
-      Labels: config.labels,
-      StopSignal: config.stopSignal,
-      StopTimeout: config.stopTimeout,
-      Shell: config.shell,
-      HostConfig: config.hostConfig,
-      NetworkingConfig: config.networkingConfig,
-    };
-  }
-
   private mapImage(i: Record<string, unknown>): Image {
     return {
       id: i.Id as string,
@@ -1405,11 +1770,16 @@ class DockerClientImpl implements DockerClient {
       scope: n.Scope as Network['scope'],
       driver: n.Driver as string,
       enableIPv6: n.EnableIPv6 as boolean,
-      ipam: n.IPAM as Network['ipam'],
+      ipam: fromWire<Network['ipam']>((n.IPAM as WireObject) ?? {}),
       internal: n.Internal as boolean,
       attachable: n.Attachable as boolean,
       ingress: n.Ingress as boolean,
-      containers: (n.Containers as Record<string, Network['containers'][string]>) || {},
+      containers: Object.fromEntries(
+        Object.entries((n.Containers as Record<string, WireObject>) || {}).map(([id, c]) => [
+          id,
+          fromWire<NetworkContainer>(c),
+        ])
+      ),
       options: (n.Options as Record<string, string>) || {},
       labels: (n.Labels as Record<string, string>) || {},
     };
@@ -18,6 +18,9 @@
  * - X-Docker-API-Version: Docker API version (default: v1.47)
  * - X-Docker-Hub-Username: Docker Hub username
  * - X-Docker-Hub-Password: Docker Hub password
+ * - X-Docker-Registry: Private registry URL (enables the registry tools)
+ * - X-Docker-Registry-Username: Registry username
+ * - X-Docker-Registry-Password: Registry password
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
@@ -26,10 +29,12 @@ import { createDockerClient } from './client.js';
 import {
   registerContainerTools,
   registerExecTools,
+  registerFileTools,
   registerHubTools,
   registerImageTools,
   registerNetworkTools,
   registerPluginTools,
+  registerRegistryTools,
   registerSecretsConfigsTools,
   registerSwarmTools,
   registerSystemTools,
@@ -40,6 +45,7 @@ import {
   type TenantCredentials,
   hasDockerEngineCredentials,
   hasDockerHubCredentials,
+  hasRegistryCredentials,
   parseTenantCredentials,
 } from './types/env.js';
 
@@ -88,8 +94,9 @@ export class DockerMcpAgent extends McpAgent<Env> {
  * a single server deployment to serve multiple tenants.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param env - Worker environment (for the optional artifact bucket)
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
+function createStatelessServer(credentials: TenantCredentials, env: Env): McpServer {
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
@@ -100,12 +107,13 @@ function createStatelessServer(credentials: TenantCredentials): McpServer {
 
   // Register Docker Engine tools if credentials are available
   if (hasDockerEngineCredentials(credentials)) {
-    registerContainerTools(server, client);
-    registerImageTools(server, client);
+    registerContainerTools(server, client, env.DOCKER_ARTIFACTS);
+    registerImageTools(server, client, env.DOCKER_ARTIFACTS);
     registerNetworkTools(server, client);
-    registerVolumeTools(server, client);
+    registerVolumeTools(server, client, env.DOCKER_ARTIFACTS);
     registerSystemTools(server, client);
     registerExecTools(server, client);
+    registerFileTools(server, client);
     registerSwarmTools(server, client);
     registerSecretsConfigsTools(server, client);
     registerPluginTools(server, client);
@@ -116,6 +124,11 @@ function createStatelessServer(credentials: TenantCredentials): McpServer {
     registerHubTools(server, client);
   }
 
+  // Register registry tools if a registry is configured
+  if (hasRegistryCredentials(credentials)) {
+    registerRegistryTools(server, client);
+  }
+
   // Always register test connection tool
   server.tool('docker_test_connection', 'Test the connection to Docker', {}, async () => {
     try {
@@ -167,15 +180,17 @@ export default {
       // Check if any credentials are provided
       const hasEngineCredentials = hasDockerEngineCredentials(credentials);
       const hasHubCredentials = hasDockerHubCredentials(credentials);
+      const hasRegistry = hasRegistryCredentials(credentials);
 
-      if (!hasEngineCredentials && !hasHubCredentials) {
+      if (!hasEngineCredentials && !hasHubCredentials && !hasRegistry) {
         return new Response(
           JSON.stringify({
             error: 'Unauthorized',
-            message: 'No credentials provided. Provide either X-Docker-Host for Docker Engine operations or X-Docker-Hub-Token for Docker Hub operations.',
+            message: 'No credentials provided. Provide X-Docker-Host for Docker Engine operations, X-Docker-Hub-Token for Docker Hub operations, or X-Docker-Registry for registry operations.',
             required_headers: {
               docker_engine: 'X-Docker-Host',
               docker_hub: 'X-Docker-Hub-Token or (X-Docker-Hub-Username + X-Docker-Hub-Password)',
+              registry: 'X-Docker-Registry (+ X-Docker-Registry-Username and X-Docker-Registry-Password)',
             },
           }),
           {
@@ -186,7 +201,7 @@ export default {
       }
 
       // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      const server = createStatelessServer(credentials, env);
 
       // Import and use createMcpHandler for streamable HTTP
       const { createMcpHandler } = await import('agents/mcp');
@@ -225,12 +240,20 @@ export default {
             option_1: 'X-Docker-Hub-Token - Docker Hub API token',
             option_2: 'X-Docker-Hub-Username + X-Docker-Hub-Password',
           },
+          registry: {
+            required: 'X-Docker-Registry - Registry URL (e.g., registry.example.com)',
+            optional: {
+              'X-Docker-Registry-Username': 'Registry username',
+              'X-Docker-Registry-Password': 'Registry password or token',
+            },
+          },
         },
         tools: {
           containers: [
             'docker_list_containers',
             'docker_inspect_container',
             'docker_create_container',
+            'docker_run',
             'docker_start_container',
             'docker_stop_container',
             'docker_restart_container',
@@ -241,11 +264,16 @@ export default {
             'docker_rename_container',
             'docker_get_logs',
             'docker_get_stats',
+            'docker_stats_all',
             'docker_get_top',
             'docker_get_changes',
             'docker_wait_container',
+            'docker_commit_container',
+            'docker_export_container',
             'docker_prune_containers',
             'docker_update_container',
+            'docker_bulk_container_action',
+            'docker_recreate_container',
           ],
           images: [
             'docker_list_images',
@@ -257,6 +285,12 @@ export default {
             'docker_remove_image',
             'docker_search_images',
             'docker_prune_images',
+            'docker_build_image',
+            'docker_save_images',
+            'docker_load_image',
+            'docker_check_image_updates',
+            'docker_analyze_image',
+            'docker_compare_images',
           ],
           networks: [
             'docker_list_networks',
@@ -266,13 +300,20 @@ export default {
             'docker_connect_network',
             'docker_disconnect_network',
             'docker_prune_networks',
+            'docker_port_map',
+            'docker_network_topology',
+            'docker_probe_connectivity',
           ],
           volumes: [
             'docker_list_volumes',
+            'docker_volume_usage',
             'docker_inspect_volume',
             'docker_create_volume',
             'docker_remove_volume',
             'docker_prune_volumes',
+            'docker_backup_volume',
+            'docker_restore_volume',
+            'docker_list_volume_backups',
           ],
           exec: [
             'docker_exec',
@@ -281,6 +322,12 @@ export default {
             'docker_inspect_exec',
             'docker_resize_exec',
           ],
+          files: [
+            'docker_stat_path',
+            'docker_list_directory',
+            'docker_read_file',
+            'docker_upload_files',
+          ],
           system: [
             'docker_system_info',
             'docker_version',
@@ -343,6 +390,14 @@ export default {
             'docker_hub_build_history',
             'docker_hub_trigger_build',
           ],
+          registry: [
+            'docker_registry_catalog',
+            'docker_registry_list_tags',
+            'docker_registry_get_manifest',
+            'docker_registry_get_image_config',
+            'docker_registry_delete_manifest',
+            'docker_registry_blob_exists',
+          ],
           utility: [
             'docker_test_connection',
           ],
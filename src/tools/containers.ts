@@ -7,12 +7,203 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DockerClient } from '../client.js';
+import type {
+  ContainerConfig,
+  ContainerCreateInput,
+  ContainerInspect,
+  ContainerStats,
+  ContainerStatsSummary,
+  ContainerWaitCondition,
+} from '../types/entities.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { containerName } from '../utils/containers.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { paginate } from '../utils/pagination.js';
+import { artifactKey, requireArtifactBucket, uploadStream } from '../utils/r2.js';
+import { parseImageReference } from '../utils/registry.js';
+import { summarizeStats } from '../utils/stats.js';
+import { parseTimeArg } from '../utils/streams.js';
+
+// =============================================================================
+// Stats Sorting
+// =============================================================================
+
+type StatsSorter = (a: ContainerStatsSummary, b: ContainerStatsSummary) => number;
+
+const STATS_SORTERS: Record<string, StatsSorter> = {
+  cpu: (a, b) => b.cpuPercent - a.cpuPercent,
+  memory: (a, b) => b.memoryUsage - a.memoryUsage,
+  memoryPercent: (a, b) => b.memoryPercent - a.memoryPercent,
+  netIO: (a, b) => b.networkRxBytes + b.networkTxBytes - (a.networkRxBytes + a.networkTxBytes),
+  blockIO: (a, b) => b.blockReadBytes + b.blockWriteBytes - (a.blockReadBytes + a.blockWriteBytes),
+  pids: (a, b) => b.pids - a.pids,
+  name: (a, b) => a.name.localeCompare(b.name),
+};
+
+// =============================================================================
+// Container Create Schema
+// =============================================================================
+
+const healthcheckSchema = z.object({
+  test: z.array(z.string()).describe('Test command, e.g. ["CMD-SHELL", "curl -f http://localhost/"] or ["NONE"]'),
+  interval: z.number().min(0).optional().describe('Seconds between checks'),
+  timeout: z.number().min(0).optional().describe('Seconds before a check is considered hung'),
+  startPeriod: z.number().min(0).optional().describe('Seconds to wait before counting failures'),
+  retries: z.number().int().min(0).optional().describe('Consecutive failures before unhealthy'),
+});
+
+const mountSchema = z.object({
+  type: z.enum(['bind', 'volume', 'tmpfs']).describe('Mount type'),
+  source: z.string().default('').describe('Host path or volume name (empty for tmpfs)'),
+  target: z.string().describe('Path inside the container'),
+  readOnly: z.boolean().optional().describe('Mount read-only'),
+  bindOptions: z
+    .object({
+      propagation: z.enum(['private', 'rprivate', 'shared', 'rshared', 'slave', 'rslave']).optional(),
+      nonRecursive: z.boolean().optional(),
+    })
+    .optional(),
+  volumeOptions: z
+    .object({
+      noCopy: z.boolean().optional(),
+      labels: z.record(z.string(), z.string()).optional(),
+      driverConfig: z
+        .object({
+          name: z.string().optional(),
+          options: z.record(z.string(), z.string()).optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  tmpfsOptions: z
+    .object({
+      sizeBytes: z.number().int().min(0).optional(),
+      mode: z.number().int().optional(),
+    })
+    .optional(),
+});
+
+const containerCreateShape = {
+  image: z.string().describe('Image to use'),
+  name: z.string().optional().describe('Container name'),
+  cmd: z.array(z.string()).optional().describe('Command to run'),
+  entrypoint: z.array(z.string()).optional().describe('Entrypoint override'),
+  env: z.array(z.string()).optional().describe('Environment variables (KEY=VALUE)'),
+  workingDir: z.string().optional().describe('Working directory'),
+  hostname: z.string().optional().describe('Container hostname'),
+  domainname: z.string().optional().describe('Container domain name'),
+  user: z.string().optional().describe('User to run as'),
+  tty: z.boolean().optional().describe('Allocate TTY'),
+  openStdin: z.boolean().optional().describe('Keep stdin open'),
+  labels: z.record(z.string(), z.string()).optional().describe('Container labels'),
+  stopSignal: z.string().optional().describe('Signal used to stop the container'),
+  stopTimeout: z.number().int().min(0).optional().describe('Seconds to wait before killing on stop'),
+  ports: z
+    .record(z.string(), z.array(z.object({ HostIp: z.string().optional(), HostPort: z.string() })))
+    .optional()
+    .describe('Port mappings'),
+  exposedPorts: z.array(z.string()).optional().describe('Additional exposed ports (e.g., "9000/tcp")'),
+  publishAllPorts: z.boolean().optional().describe('Publish all exposed ports'),
+  volumes: z.array(z.string()).optional().describe('Volume bindings'),
+  mounts: z.array(mountSchema).optional().describe('Bind, volume or tmpfs mounts'),
+  tmpfs: z.record(z.string(), z.string()).optional().describe('tmpfs mounts (path -> options)'),
+  volumesFrom: z.array(z.string()).optional().describe('Mount volumes from other containers'),
+  readonlyRootfs: z.boolean().optional().describe('Read-only root filesystem'),
+  restartPolicy: z
+    .object({
+      name: z.enum(['no', 'always', 'unless-stopped', 'on-failure']),
+      maximumRetryCount: z.number().int().min(0).optional(),
+    })
+    .optional()
+    .describe('Restart policy'),
+  autoRemove: z.boolean().optional().describe('Remove the container when it exits'),
+  memory: z.number().int().min(0).optional().describe('Memory limit in bytes'),
+  memorySwap: z.number().int().min(-1).optional().describe('Memory + swap limit in bytes (-1 for unlimited)'),
+  memoryReservation: z.number().int().min(0).optional().describe('Memory soft limit in bytes'),
+  shmSize: z.number().int().min(0).optional().describe('Size of /dev/shm in bytes'),
+  cpus: z.number().positive().optional().describe('Number of CPUs (e.g., 1.5)'),
+  cpuShares: z.number().int().min(0).optional().describe('CPU shares (relative weight)'),
+  cpusetCpus: z.string().optional().describe('CPUs to use (e.g., "0-3")'),
+  cpuPeriod: z.number().int().min(0).optional().describe('CPU CFS period'),
+  cpuQuota: z.number().int().optional().describe('CPU CFS quota'),
+  pidsLimit: z.number().int().optional().describe('Process limit (-1 for unlimited)'),
+  oomKillDisable: z.boolean().optional().describe('Disable the OOM killer'),
+  blkioWeight: z.number().int().min(0).max(1000).optional().describe('Block IO weight'),
+  privileged: z.boolean().optional().describe('Give extended privileges'),
+  capAdd: z.array(z.string()).optional().describe('Kernel capabilities to add'),
+  capDrop: z.array(z.string()).optional().describe('Kernel capabilities to drop'),
+  securityOpt: z.array(z.string()).optional().describe('Security options'),
+  usernsMode: z.string().optional().describe('User namespace mode'),
+  groupAdd: z.array(z.string()).optional().describe('Additional groups'),
+  devices: z
+    .array(
+      z.object({
+        pathOnHost: z.string(),
+        pathInContainer: z.string().optional(),
+        cgroupPermissions: z.string().default('rwm'),
+      })
+    )
+    .optional()
+    .describe('Host devices to add'),
+  deviceRequests: z
+    .array(
+      z.object({
+        driver: z.string().optional(),
+        count: z.number().int().optional(),
+        deviceIds: z.array(z.string()).optional(),
+        capabilities: z.array(z.array(z.string())).optional(),
+        options: z.record(z.string(), z.string()).optional(),
+      })
+    )
+    .optional()
+    .describe('Device requests (e.g., GPUs)'),
+  ulimits: z
+    .array(z.object({ name: z.string(), soft: z.number().int(), hard: z.number().int() }))
+    .optional()
+    .describe('Ulimits'),
+  sysctls: z.record(z.string(), z.string()).optional().describe('Namespaced kernel parameters'),
+  init: z.boolean().optional().describe('Run an init process inside the container'),
+  runtime: z.string().optional().describe('Runtime to use'),
+  logConfig: z
+    .object({ type: z.string(), config: z.record(z.string(), z.string()).optional() })
+    .optional()
+    .describe('Logging driver configuration'),
+  networkMode: z.string().optional().describe('Network mode'),
+  dns: z.array(z.string()).optional().describe('DNS servers'),
+  dnsSearch: z.array(z.string()).optional().describe('DNS search domains'),
+  dnsOptions: z.array(z.string()).optional().describe('DNS options'),
+  extraHosts: z.array(z.string()).optional().describe('Extra /etc/hosts entries (host:ip)'),
+  ipcMode: z.string().optional().describe('IPC mode'),
+  pidMode: z.string().optional().describe('PID mode'),
+  networks: z
+    .record(
+      z.string(),
+      z.object({
+        aliases: z.array(z.string()).optional(),
+        ipv4Address: z.string().optional(),
+        ipv6Address: z.string().optional(),
+        links: z.array(z.string()).optional(),
+        macAddress: z.string().optional(),
+      })
+    )
+    .optional()
+    .describe('Networks to attach at creation'),
+  healthcheck: healthcheckSchema.optional().describe('Container healthcheck'),
+};
+
+const containerCreateSchema = z.object(containerCreateShape);
+
+type ContainerCreateArgs = z.infer<typeof containerCreateSchema>;
 
 /**
  * Register all container-related tools
  */
-export function registerContainerTools(server: McpServer, client: DockerClient): void {
+export function registerContainerTools(
+  server: McpServer,
+  client: DockerClient,
+  artifacts?: R2Bucket
+): void {
   // ===========================================================================
   // List Containers
   // ===========================================================================
@@ -20,24 +211,83 @@ export function registerContainerTools(server: McpServer, client: DockerClient):
     'docker_list_containers',
     `List Docker containers.
 
-Returns a list of containers. By default only running containers are shown.
+Returns a page of containers. By default only running containers are shown, newest first.
 
 Args:
-  - all: Show all containers (default shows just running)
-  - limit: Maximum number of containers to return
+  - all: Show all containers (default shows just running; implied by status/exited filters)
+  - label: Label filters ("key" or "key=value"); all must match
+  - name: Container name filter (substring or regular expression)
+  - status: Only containers in these states
+  - ancestor: Only containers created from this image (name[:tag], ID or digest)
+  - network: Only containers connected to this network (name or ID)
+  - volume: Only containers mounting this volume (name) or path
+  - health: Only containers with this health status
+  - exited: Only containers that exited with this code
+  - since / before: Only containers created after / before this container (ID or name)
+  - sortBy: Sort by 'created', 'name' or 'state' (default: created)
+  - order: 'asc' or 'desc' (default: desc for created, asc otherwise)
+  - limit: Page size (default: 50)
+  - cursor: nextCursor from a previous response with the same filters and sort
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  List of containers with ID, names, image, status, state, and ports.`,
+  Containers with ID, names, image, status, state, and ports, plus total, hasMore and
+  nextCursor.`,
     {
       all: z.boolean().default(false).describe('Show all containers (default shows just running)'),
-      limit: z.number().int().min(1).max(1000).optional().describe('Maximum number to return'),
+      label: z.array(z.string()).optional().describe('Label filters (key or key=value)'),
+      name: z.string().optional().describe('Name filter'),
+      status: z
+        .array(z.enum(['created', 'restarting', 'running', 'removing', 'paused', 'exited', 'dead']))
+        .optional()
+        .describe('Container states'),
+      ancestor: z.string().optional().describe('Image the container was created from'),
+      network: z.string().optional().describe('Network name or ID'),
+      volume: z.string().optional().describe('Volume name or mount path'),
+      health: z.enum(['starting', 'healthy', 'unhealthy', 'none']).optional().describe('Health status'),
+      exited: z.number().int().optional().describe('Exit code'),
+      since: z.string().optional().describe('Created after this container'),
+      before: z.string().optional().describe('Created before this container'),
+      sortBy: z.enum(['created', 'name', 'state']).default('created').describe('Sort field'),
+      order: z.enum(['asc', 'desc']).optional().describe('Sort order'),
+      limit: z.number().int().min(1).max(1000).default(50).describe('Maximum number to return'),
+      cursor: z.string().optional().describe('Cursor from a previous page'),
       format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
     },
-    async ({ all, format }) => {
+    async ({ all, sortBy, order, limit, cursor, format, ...filterArgs }) => {
       try {
-        const containers = await client.listContainers(all);
-        return formatResponse({ items: containers, count: containers.length, hasMore: false }, format, 'containers');
+        const filters: Record<string, unknown[]> = {};
+        if (filterArgs.label?.length) filters.label = filterArgs.label;
+        if (filterArgs.status?.length) filters.status = filterArgs.status;
+        for (const key of ['name', 'ancestor', 'network', 'volume', 'health', 'since', 'before'] as const) {
+          const value = filterArgs[key];
+          if (value) filters[key] = [value];
+        }
+        if (filterArgs.exited !== undefined) filters.exited = [String(filterArgs.exited)];
+
+        // Stopped containers are only listed with all=true
+        const includeStopped = all || filters.status !== undefined || filters.exited !== undefined;
+        const containers = await client.listContainers(
+          includeStopped,
+          Object.keys(filters).length > 0 ? filters : undefined
+        );
+
+        const descending = (order ?? (sortBy === 'created' ? 'desc' : 'asc')) === 'desc';
+        const page = paginate(
+          containers,
+          {
+            limit,
+            cursor,
+            sort: `${sortBy}:${descending ? 'desc' : 'asc'}`,
+            descending,
+            filters: { all: includeStopped, ...filters },
+          },
+          (c) => ({
+            value: sortBy === 'created' ? c.created : sortBy === 'state' ? c.state : containerName(c),
+            id: c.id,
+          })
+        );
+        return formatResponse(page, format, 'containers');
       } catch (error) {
         return formatError(error);
       }
@@ -78,60 +328,42 @@ Returns:
     'docker_create_container',
     `Create a new container.
 
+Accepts the same options as \`docker run\` (without starting the container).
+
 Args:
   - image: Image to use (required)
   - name: Container name
-  - cmd: Command to run
+  - cmd / entrypoint: Command and entrypoint override
   - env: Environment variables (array of KEY=VALUE)
+  - workingDir, hostname, domainname, user, tty, openStdin, labels, stopSignal, stopTimeout
   - ports: Port mappings (e.g., {"80/tcp": [{"HostPort": "8080"}]})
+  - exposedPorts: Additional exposed ports (e.g., ["9000/tcp"])
+  - publishAllPorts: Publish all exposed ports to random host ports
   - volumes: Volume bindings (e.g., ["/host/path:/container/path"])
-  - workingDir: Working directory inside container
-  - hostname: Container hostname
-  - user: User to run as
-  - tty: Allocate a TTY
-  - labels: Container labels
+  - mounts: Bind, volume or tmpfs mounts
+  - tmpfs: tmpfs mounts (path -> options)
+  - volumesFrom: Mount volumes from other containers
+  - readonlyRootfs: Mount the root filesystem read-only
+  - restartPolicy: Restart policy ({name, maximumRetryCount})
+  - autoRemove: Remove the container when it exits
+  - memory, memorySwap, memoryReservation, shmSize: Memory limits in bytes
+  - cpus: Number of CPUs (e.g., 1.5); cpuShares, cpusetCpus, cpuPeriod, cpuQuota
+  - pidsLimit, oomKillDisable, blkioWeight
+  - privileged, capAdd, capDrop, securityOpt, usernsMode, groupAdd
+  - devices, deviceRequests: Host devices and device requests (e.g., GPUs)
+  - ulimits, sysctls, init, runtime
+  - logConfig: Logging driver ({type, config})
+  - networkMode: Network mode (bridge, host, none, container:<id> or a network name)
+  - dns, dnsSearch, dnsOptions, extraHosts (e.g., ["db:10.0.0.5"]), ipcMode, pidMode
+  - networks: Networks to attach at creation (network -> {aliases, ipv4Address, ipv6Address})
+  - healthcheck: Healthcheck ({test, interval, timeout, startPeriod, retries}; durations in seconds)
 
 Returns:
   Created container ID and any warnings.`,
-    {
-      image: z.string().describe('Image to use'),
-      name: z.string().optional().describe('Container name'),
-      cmd: z.array(z.string()).optional().describe('Command to run'),
-      env: z.array(z.string()).optional().describe('Environment variables (KEY=VALUE)'),
-      ports: z.record(z.string(), z.array(z.object({ HostIp: z.string().optional(), HostPort: z.string() }))).optional().describe('Port mappings'),
-      volumes: z.array(z.string()).optional().describe('Volume bindings'),
-      workingDir: z.string().optional().describe('Working directory'),
-      hostname: z.string().optional().describe('Container hostname'),
-      user: z.string().optional().describe('User to run as'),
-      tty: z.boolean().optional().describe('Allocate TTY'),
-      labels: z.record(z.string(), z.string()).optional().describe('Container labels'),
-    },
+    containerCreateShape,
     async (input) => {
       try {
-        const portBindings = input.ports
-          ? Object.fromEntries(
-              Object.entries(input.ports).map(([k, v]) => [
-                k,
-                v.map((p) => ({ hostIp: p.HostIp, hostPort: p.HostPort })),
-              ])
-            )
-          : undefined;
-        const result = await client.createContainer({
-          image: input.image,
-          name: input.name,
-          cmd: input.cmd,
-          env: input.env,
-          exposedPorts: input.ports ? Object.keys(input.ports).reduce((acc, k) => ({ ...acc, [k]: {} }), {}) : undefined,
-          workingDir: input.workingDir,
-          hostname: input.hostname,
-          user: input.user,
-          tty: input.tty,
-          labels: input.labels,
-          hostConfig: {
-            binds: input.volumes,
-            portBindings: portBindings as Record<string, Array<{ hostIp?: string; hostPort: string }>>,
-          },
-        });
+        const result = await client.createContainer(toContainerCreateInput(input));
         return {
           content: [
             {
@@ -151,6 +383,95 @@ Returns:
     }
   );
 
+  // ===========================================================================
+  // Run Container
+  // ===========================================================================
+  server.tool(
+    'docker_run',
+    `Run a container to completion and collect its output.
+
+Pulls the image if needed, creates and starts the container, waits for it to exit
+(killing it when the timeout is reached) and returns the exit code with stdout and
+stderr. Accepts all docker_create_container options.
+
+Args:
+  - image: Image to run (required)
+  - cmd, env, volumes, networks, ...: Same as docker_create_container
+  - pull: When to pull the image ('missing', 'always' or 'never'; default: missing)
+  - timeout: Seconds to wait for the container to exit (default: 300)
+  - remove: Remove the container once its output has been collected (default: false)
+  - tail: Only return this many lines of output per stream
+
+Note: prefer 'remove' over 'autoRemove'; with autoRemove the daemon may delete the
+container before its output can be read.
+
+Returns:
+  Container ID, exit code, whether the run timed out, stdout and stderr.`,
+    {
+      ...containerCreateShape,
+      pull: z.enum(['missing', 'always', 'never']).default('missing').describe('When to pull the image'),
+      timeout: z.number().int().min(1).max(3600).default(300).describe('Seconds to wait for exit'),
+      remove: z.boolean().default(false).describe('Remove the container after collecting output'),
+      tail: z.number().int().min(1).optional().describe('Lines of output to return per stream'),
+    },
+    async ({ pull, timeout, remove, tail, ...input }) => {
+      let containerId: string | undefined;
+      try {
+        let pulled = false;
+        if (pull === 'always' || (pull === 'missing' && !(await imageExists(client, input.image)))) {
+          const { name, tag } = parseImageReference(input.image);
+          await client.pullImage(name, tag);
+          pulled = true;
+        }
+
+        const created = await client.createContainer(toContainerCreateInput(input));
+        containerId = created.id;
+        const startedAt = Date.now();
+        await client.startContainer(containerId);
+
+        const result = await waitWithTimeout(client, containerId, timeout * 1000);
+        if (!result) {
+          await client.killContainer(containerId).catch(() => undefined);
+        }
+        const durationMs = Date.now() - startedAt;
+
+        const entries = await client.getContainerLogs(containerId, { tail: 'all' });
+        const output = (stream: 'stdout' | 'stderr') => {
+          const lines = entries.filter((e) => e.stream === stream).map((e) => e.message);
+          return (tail !== undefined ? lines.slice(-tail) : lines).join('\n');
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: result?.statusCode === 0,
+                containerId,
+                image: input.image,
+                pulled,
+                exitCode: result?.statusCode ?? null,
+                timedOut: !result,
+                error: result?.error?.message,
+                durationMs,
+                stdout: output('stdout'),
+                stderr: output('stderr'),
+                warnings: created.warnings,
+                removed: remove,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      } finally {
+        if (remove && containerId) {
+          await client.removeContainer(containerId, true).catch(() => undefined);
+        }
+      }
+    }
+  );
+
   // ===========================================================================
   // Start Container
   // ===========================================================================
@@ -402,24 +723,55 @@ Returns:
     'docker_get_logs',
     `Get container logs.
 
+Logs are split into separate stdout/stderr entries (multiplexed streams are decoded).
+
 Args:
   - id: Container ID or name
-  - tail: Number of lines to show from end (default: 100)
+  - tail: Number of lines to show from end (default: 100, or all lines when since/until is set)
   - timestamps: Include timestamps
+  - since: Only logs after this time (Unix seconds, RFC 3339 date, or relative like "15m")
+  - until: Only logs before this time (same formats as since)
+  - followSeconds: Keep following the log stream for this many seconds (max 60)
+  - stream: Which stream to return ('all', 'stdout' or 'stderr')
+  - include: Only return lines matching this regular expression
+  - exclude: Drop lines matching this regular expression
+  - format: Response format ('json' or 'markdown')
 
 Returns:
-  Container log output.`,
+  Log entries with stream, timestamp (if requested) and message.`,
     {
       id: z.string().describe('Container ID or name'),
-      tail: z.number().int().min(1).default(100).describe('Number of lines to show'),
+      tail: z.number().int().min(1).optional().describe('Number of lines to show'),
       timestamps: z.boolean().default(false).describe('Include timestamps'),
+      since: z.string().optional().describe('Only logs after this time'),
+      until: z.string().optional().describe('Only logs before this time'),
+      followSeconds: z.number().int().min(1).max(60).optional().describe('Follow the log stream for N seconds'),
+      stream: z.enum(['all', 'stdout', 'stderr']).default('all').describe('Which stream to return'),
+      include: z.string().optional().describe('Regex lines must match'),
+      exclude: z.string().optional().describe('Regex of lines to drop'),
+      format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
     },
-    async ({ id, tail, timestamps }) => {
+    async ({ id, tail, timestamps, since, until, followSeconds, stream, include, exclude, format }) => {
       try {
-        const logs = await client.getContainerLogs(id, tail, timestamps);
-        return {
-          content: [{ type: 'text', text: logs || '(no logs)' }],
-        };
+        const sinceTime = parseTimeOption('since', since);
+        const untilTime = parseTimeOption('until', until);
+        const includePattern = compilePattern('include', include);
+        const excludePattern = compilePattern('exclude', exclude);
+
+        const entries = await client.getContainerLogs(id, {
+          tail: tail ?? (sinceTime !== undefined || untilTime !== undefined ? 'all' : 100),
+          timestamps,
+          since: sinceTime,
+          until: untilTime,
+          stdout: stream !== 'stderr',
+          stderr: stream !== 'stdout',
+          followSeconds,
+        });
+
+        const items = entries.filter(
+          (e) => (includePattern?.test(e.message) ?? true) && !excludePattern?.test(e.message)
+        );
+        return formatResponse({ items, count: items.length, hasMore: false }, format, 'logs');
       } catch (error) {
         return formatError(error);
       }
@@ -433,20 +785,101 @@ Returns:
     'docker_get_stats',
     `Get container resource usage statistics.
 
+Computes CPU%, memory usage (excluding page cache) as a share of the limit, and
+network and block I/O totals, like \`docker stats\`. With a sampling window, CPU and
+memory are averaged over the samples and I/O rates (bytes/second) are reported.
+
 Args:
   - id: Container ID or name
+  - window: Seconds to sample for (default: 0, a single sample without I/O rates)
+  - interval: Seconds between samples (default: 1)
+  - raw: Also return the last raw stats sample
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  CPU, memory, network, and I/O statistics.`,
+  CPU, memory, network, block I/O and PID statistics.`,
     {
       id: z.string().describe('Container ID or name'),
+      window: z.number().min(0).max(60).default(0).describe('Seconds to sample for'),
+      interval: z.number().min(0.5).max(30).default(1).describe('Seconds between samples'),
+      raw: z.boolean().default(false).describe('Include the last raw stats sample'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ id, format }) => {
+    async ({ id, window, interval, raw, format }) => {
+      try {
+        const samples = await sampleStats(client, id, window * 1000, interval * 1000);
+        const summary = summarizeStats(samples);
+        return formatResponse(
+          raw ? { ...summary, raw: samples[samples.length - 1] } : summary,
+          format,
+          'stats'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Stats For All Containers
+  // ===========================================================================
+  server.tool(
+    'docker_stats_all',
+    `Get resource usage for all running containers (like \`docker stats --no-stream\`).
+
+Args:
+  - sortBy: Sort by 'cpu', 'memory', 'memoryPercent', 'netIO', 'blockIO', 'pids' or 'name' (default: cpu)
+  - limit: Only return the top N containers
+  - concurrency: Number of containers sampled in parallel (default: 5)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  One row per container with CPU%, memory usage/limit, net I/O, block I/O and PIDs,
+  plus any containers whose stats could not be read.`,
+    {
+      sortBy: z
+        .enum(['cpu', 'memory', 'memoryPercent', 'netIO', 'blockIO', 'pids', 'name'])
+        .default('cpu')
+        .describe('Sort order (descending, except name)'),
+      limit: z.number().int().min(1).max(1000).optional().describe('Return only the top N containers'),
+      concurrency: z.number().int().min(1).max(20).default(5).describe('Parallel stats requests'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ sortBy, limit, concurrency, format }) => {
       try {
-        const stats = await client.getContainerStats(id, false);
-        return formatResponse(stats, format, 'stats');
+        const containers = await client.listContainers(false);
+        const results = await mapWithConcurrency(containers, concurrency, async (c) =>
+          summarizeStats([await client.getContainerStats(c.id, false)])
+        );
+
+        const stats: ContainerStatsSummary[] = [];
+        const errors: Array<{ id: string; name: string; error: string }> = [];
+        results.forEach((result, i) => {
+          if (result.status === 'fulfilled') {
+            stats.push(result.value);
+          } else {
+            errors.push({
+              id: containers[i].id,
+              name: containerName(containers[i]),
+              error: errorMessage(result.reason),
+            });
+          }
+        });
+
+        stats.sort(STATS_SORTERS[sortBy]);
+        const items = limit !== undefined ? stats.slice(0, limit) : stats;
+        return formatResponse(
+          {
+            items,
+            count: items.length,
+            total: stats.length,
+            // No cursor: limit only keeps the top N, and total shows how many were cut
+            hasMore: false,
+            ...(errors.length > 0 ? { errors } : {}),
+          },
+          format,
+          'stats'
+        );
       } catch (error) {
         return formatError(error);
       }
@@ -514,21 +947,188 @@ Returns:
   // ===========================================================================
   server.tool(
     'docker_wait_container',
-    `Wait for a container to stop.
+    `Wait for a container to stop, exit, be removed or become healthy.
+
+Waits at most 'timeout' seconds and then reports a timed-out result instead of
+blocking the request.
 
 Args:
   - id: Container ID or name
+  - condition: What to wait for (default: not-running)
+    - not-running: the container is not running (returns immediately if stopped)
+    - next-exit: the container's next exit
+    - removed: the container has been removed
+    - healthy: the healthcheck reports healthy (requires a healthcheck)
+  - timeout: Maximum seconds to wait (default: 60)
 
 Returns:
-  Exit code and any error message.`,
+  Exit code and any error message, the health status for 'healthy', or
+  timedOut: true when the condition was not met in time.`,
     {
       id: z.string().describe('Container ID or name'),
+      condition: z
+        .enum(['not-running', 'next-exit', 'removed', 'healthy'])
+        .default('not-running')
+        .describe('Condition to wait for'),
+      timeout: z.number().int().min(1).max(900).default(60).describe('Maximum seconds to wait'),
     },
-    async ({ id }) => {
+    async ({ id, condition, timeout }) => {
       try {
-        const result = await client.waitContainer(id);
+        const startedAt = Date.now();
+        const waited = () => Math.round((Date.now() - startedAt) / 100) / 10;
+
+        if (condition === 'healthy') {
+          const container = await client.inspectContainer(id);
+          if (!container.state.health) {
+            throw new ValidationError(`Container ${id} has no healthcheck`, {
+              condition: ['Use a container with a healthcheck, or another condition'],
+            });
+          }
+          const health = await waitForHealthy(client, id, timeout * 1000);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  containerId: container.id,
+                  condition,
+                  success: health.healthy,
+                  timedOut: health.timedOut ?? false,
+                  status: health.status,
+                  reason: health.reason,
+                  waitedSeconds: waited(),
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const result = await waitWithTimeout(client, id, timeout * 1000, condition);
         return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                result
+                  ? { containerId: id, condition, timedOut: false, ...result, waitedSeconds: waited() }
+                  : {
+                      containerId: id,
+                      condition,
+                      timedOut: true,
+                      message: `Condition '${condition}' not reached within ${timeout}s`,
+                      waitedSeconds: waited(),
+                    },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Commit Container
+  // ===========================================================================
+  server.tool(
+    'docker_commit_container',
+    `Create a new image from a container's changes.
+
+Args:
+  - id: Container ID or name
+  - repo: Repository name for the image (e.g., "myapp-debug")
+  - tag: Tag for the image (default: latest)
+  - comment: Commit message
+  - author: Author (e.g., "Jane Doe <jane@example.com>")
+  - pause: Pause the container while committing (default: true)
+  - changes: Dockerfile instructions to apply (e.g., ["ENV DEBUG=1", "EXPOSE 8080"])
+
+Returns:
+  ID of the new image.`,
+    {
+      id: z.string().describe('Container ID or name'),
+      repo: z.string().optional().describe('Repository name for the image'),
+      tag: z.string().optional().describe('Image tag'),
+      comment: z.string().optional().describe('Commit message'),
+      author: z.string().optional().describe('Author of the image'),
+      pause: z.boolean().default(true).describe('Pause the container while committing'),
+      changes: z
+        .array(z.string())
+        .optional()
+        .describe('Dockerfile instructions (CMD, ENTRYPOINT, ENV, EXPOSE, LABEL, ONBUILD, USER, VOLUME, WORKDIR)'),
+    },
+    async ({ id, ...options }) => {
+      try {
+        const result = await client.commitContainer(id, options);
+        const image = options.repo ? `${options.repo}:${options.tag ?? 'latest'}` : undefined;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                message: `Container ${id} committed${image ? ` as ${image}` : ''}`,
+                imageId: result.id,
+                image,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Export Container
+  // ===========================================================================
+  server.tool(
+    'docker_export_container',
+    `Export a container's root filesystem as a tarball to R2 storage.
+
+The tarball is streamed from the daemon to the DOCKER_ARTIFACTS bucket without being
+buffered in full. Requires the DOCKER_ARTIFACTS R2 binding.
+
+Args:
+  - id: Container ID or name
+  - key: Object key (default: exports/<container>/<timestamp>.tar)
+
+Returns:
+  Object key, size in bytes and ETag.`,
+    {
+      id: z.string().describe('Container ID or name'),
+      key: z.string().optional().describe('R2 object key'),
+    },
+    async ({ id, key }) => {
+      try {
+        const bucket = requireArtifactBucket(artifacts);
+        const container = await client.inspectContainer(id);
+        const objectKey = key ?? artifactKey('exports', container.name || id, 'tar');
+        const result = await uploadStream(bucket, objectKey, await client.exportContainer(id), {
+          contentType: 'application/x-tar',
+          customMetadata: {
+            containerId: container.id,
+            containerName: container.name.replace(/^\//, ''),
+            image: container.config.image ?? '',
+          },
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                message: `Container ${id} exported to ${result.key}`,
+                key: result.key,
+                size: result.size,
+                etag: result.etag,
+              }, null, 2),
+            },
+          ],
         };
       } catch (error) {
         return formatError(error);
@@ -616,4 +1216,640 @@ Returns:
       }
     }
   );
+
+  // ===========================================================================
+  // Bulk Container Action
+  // ===========================================================================
+  server.tool(
+    'docker_bulk_container_action',
+    `Stop, restart, kill or remove all containers matching a selector.
+
+Containers are selected with label and/or name filters (at least one is required).
+stop and kill only target running containers; restart and remove target all matching
+containers. Use dryRun to preview the targets first.
+
+Args:
+  - action: 'stop', 'restart', 'kill' or 'remove'
+  - label: Label filters ("key" or "key=value"); all must match
+  - name: Container name filter (substring or regular expression)
+  - dryRun: Only return the containers that would be affected (default: false)
+  - timeout: Seconds to wait before killing (stop, restart)
+  - signal: Signal to send (kill; default: SIGKILL)
+  - force: Kill running containers before removing (remove)
+  - removeVolumes: Also remove anonymous volumes (remove)
+  - concurrency: Number of containers processed in parallel (default: 5)
+
+Returns:
+  The targeted containers and, unless dryRun, the result for each one.`,
+    {
+      action: z.enum(['stop', 'restart', 'kill', 'remove']).describe('Action to apply'),
+      label: z.array(z.string()).optional().describe('Label filters (key or key=value)'),
+      name: z.string().optional().describe('Name filter'),
+      dryRun: z.boolean().default(false).describe('Only list the targeted containers'),
+      timeout: z.number().int().min(0).optional().describe('Seconds to wait before killing'),
+      signal: z.string().optional().describe('Signal for kill'),
+      force: z.boolean().default(false).describe('Force removal of running containers'),
+      removeVolumes: z.boolean().default(false).describe('Remove anonymous volumes'),
+      concurrency: z.number().int().min(1).max(20).default(5).describe('Parallel operations'),
+    },
+    async ({ action, label, name, dryRun, timeout, signal, force, removeVolumes, concurrency }) => {
+      try {
+        const filters: Record<string, unknown[]> = {};
+        if (label?.length) filters.label = label;
+        if (name) filters.name = [name];
+        if (Object.keys(filters).length === 0) {
+          throw new ValidationError('A label or name selector is required', {
+            label: ['Provide label and/or name to select containers'],
+          });
+        }
+
+        const runningOnly = action === 'stop' || action === 'kill';
+        const containers = await client.listContainers(!runningOnly, filters);
+        const targets = containers.map((c) => ({
+          id: c.id.substring(0, 12),
+          name: containerName(c),
+          image: c.image,
+          state: c.state,
+        }));
+
+        if (dryRun) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  dryRun: true,
+                  action,
+                  message: `${targets.length} container(s) would be affected`,
+                  targets,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const results = await mapWithConcurrency(containers, concurrency, async (c) => {
+          switch (action) {
+            case 'stop':
+              return client.stopContainer(c.id, timeout);
+            case 'restart':
+              return client.restartContainer(c.id, timeout);
+            case 'kill':
+              return client.killContainer(c.id, signal);
+            case 'remove':
+              return client.removeContainer(c.id, force, removeVolumes);
+          }
+        });
+        const outcomes = results.map((result, i) => ({
+          ...targets[i],
+          success: result.status === 'fulfilled',
+          error: result.status === 'rejected' ? errorMessage(result.reason) : undefined,
+        }));
+        const failed = outcomes.filter((o) => !o.success).length;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: failed === 0,
+                action,
+                message: `${action}: ${outcomes.length - failed} succeeded, ${failed} failed`,
+                results: outcomes,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Recreate Container
+  // ===========================================================================
+  server.tool(
+    'docker_recreate_container',
+    `Recreate a container, optionally with a new image, keeping its configuration.
+
+The new container gets the same config, HostConfig, networks (with aliases and static
+IPs) and volumes as the old one. Settings inherited from the old image (default cmd,
+env, labels, ...) are not copied, so the new image's defaults apply.
+
+Steps: pull the image, rename the old container and stop it, create and start the new
+container under the original name, then wait for it to become healthy. If any step
+fails, or the new container exits, turns unhealthy or is not healthy before
+healthTimeout, the new container is removed and the old one is renamed back and
+restarted. Should the rollback itself fail, the result names the old container and
+its state. Containers with autoRemove are refused, as stopping them deletes them.
+
+Args:
+  - id: Container ID or name
+  - image: New image (e.g., "nginx:1.27"); defaults to the container's current image
+  - pull: Pull the image before recreating (default: true)
+  - stopTimeout: Seconds to wait for the old container to stop before killing it
+  - healthTimeout: Seconds to wait for the new container to become healthy (default: 60).
+    Containers without a healthcheck only need to stay running for a few seconds.
+  - keepOld: Keep the old container (renamed) instead of removing it
+
+Returns:
+  New container ID, image and health status, or the rollback reason.`,
+    {
+      id: z.string().describe('Container ID or name'),
+      image: z.string().optional().describe('New image reference'),
+      pull: z.boolean().default(true).describe('Pull the image first'),
+      stopTimeout: z.number().int().min(0).optional().describe('Seconds to wait when stopping'),
+      healthTimeout: z.number().int().min(1).max(600).default(60).describe('Seconds to wait for health'),
+      keepOld: z.boolean().default(false).describe('Keep the old container'),
+    },
+    async ({ id, image, pull, stopTimeout, healthTimeout, keepOld }) => {
+      try {
+        const old = await client.inspectContainer(id);
+        const name = old.name.replace(/^\//, '');
+        if (old.hostConfig.autoRemove) {
+          throw new ValidationError(`Container ${name} is removed by the daemon when stopped`, {
+            id: ['Containers with autoRemove cannot be recreated without losing the old one'],
+          });
+        }
+        const targetImage = image ?? old.config.image ?? old.image;
+
+        if (pull) {
+          const ref = parseImageReference(targetImage);
+          await client.pullImage(ref.name, ref.tag);
+        }
+
+        const oldImage = await client.inspectImage(old.image).catch(() => undefined);
+        const input = toRecreateInput(old, targetImage, oldImage?.config);
+
+        const wasRunning = old.state.running;
+        const backupName = `${name}_old_${Math.floor(Date.now() / 1000)}`;
+        let renamed = false;
+        let newId: string | undefined;
+        let health: HealthCheckResult;
+        try {
+          // Rename first: a running container keeps serving if the rename fails
+          await client.renameContainer(old.id, backupName);
+          renamed = true;
+          if (wasRunning) {
+            await client.stopContainer(old.id, stopTimeout ?? old.config.stopTimeout);
+          }
+          newId = (await client.createContainer(input)).id;
+          await client.startContainer(newId);
+          health = await waitForHealthy(client, newId, healthTimeout * 1000);
+        } catch (error) {
+          health = {
+            healthy: false,
+            status: 'error',
+            reason: errorMessage(error),
+          };
+        }
+
+        if (!health.healthy) {
+          const logs = newId
+            ? await client.getContainerLogs(newId, { tail: 20 }).catch(() => [])
+            : [];
+          if (newId) {
+            await client.removeContainer(newId, true).catch(() => undefined);
+          }
+          const rollbackErrors: string[] = [];
+          if (renamed) {
+            await client.renameContainer(old.id, name).catch((error) => {
+              rollbackErrors.push(`Rename to ${name} failed: ${errorMessage(error)}`);
+            });
+          }
+          if (wasRunning) {
+            await restartIfStopped(client, old.id).catch((error) => {
+              rollbackErrors.push(`Restart failed: ${errorMessage(error)}`);
+            });
+          }
+          if (rollbackErrors.length > 0) {
+            const current = await client.inspectContainer(old.id).catch(() => undefined);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    success: false,
+                    rolledBack: false,
+                    message: `Recreating ${name} failed and the rollback did not complete`,
+                    reason: health.reason,
+                    status: health.status,
+                    rollbackErrors,
+                    oldContainer: {
+                      id: old.id,
+                      name: current?.name.replace(/^\//, '') ?? backupName,
+                      state: current?.state.status ?? 'unknown',
+                    },
+                    logs: logs.map((e) => e.message),
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  rolledBack: true,
+                  message: `Recreating ${name} failed; restored the old container`,
+                  reason: health.reason,
+                  status: health.status,
+                  containerId: old.id,
+                  logs: logs.map((e) => e.message),
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        if (!keepOld) {
+          await client.removeContainer(old.id);
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                message: `Container ${name} recreated with ${targetImage}`,
+                containerId: newId,
+                image: targetImage,
+                health: health.status,
+                oldContainerId: old.id,
+                oldContainer: keepOld ? backupName : 'removed',
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * Parse an optional time argument, rejecting values that cannot be understood
+ */
+function parseTimeOption(name: string, value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseTimeArg(value);
+  if (parsed === undefined) {
+    throw new ValidationError(`Invalid ${name} time: ${value}`, {
+      [name]: ['Expected Unix seconds, an RFC 3339 date or a duration like 15m'],
+    });
+  }
+  return parsed;
+}
+
+/**
+ * Compile an optional regular expression argument
+ */
+function compilePattern(name: string, pattern?: string): RegExp | undefined {
+  if (!pattern) return undefined;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    throw new ValidationError(`Invalid ${name} pattern: ${pattern}`, {
+      [name]: ['Not a valid regular expression'],
+    });
+  }
+}
+
+/**
+ * Convert seconds to the nanoseconds used by Docker durations
+ */
+function secondsToNanos(seconds?: number): number | undefined {
+  return seconds === undefined ? undefined : Math.round(seconds * 1e9);
+}
+
+/**
+ * Build a container create request from tool arguments
+ */
+function toContainerCreateInput(input: ContainerCreateArgs): ContainerCreateInput {
+  const portBindings = input.ports
+    ? Object.fromEntries(
+        Object.entries(input.ports).map(([k, v]) => [
+          k,
+          v.map((p) => ({ hostIp: p.HostIp, hostPort: p.HostPort })),
+        ])
+      )
+    : undefined;
+  const exposed = [...Object.keys(input.ports ?? {}), ...(input.exposedPorts ?? [])];
+
+  const endpointsConfig = input.networks
+    ? Object.fromEntries(
+        Object.entries(input.networks).map(([network, endpoint]) => [
+          network,
+          {
+            aliases: endpoint.aliases,
+            links: endpoint.links,
+            macAddress: endpoint.macAddress,
+            ipamConfig:
+              endpoint.ipv4Address || endpoint.ipv6Address
+                ? { ipv4Address: endpoint.ipv4Address, ipv6Address: endpoint.ipv6Address }
+                : undefined,
+          },
+        ])
+      )
+    : undefined;
+
+  return {
+    image: input.image,
+    name: input.name,
+    cmd: input.cmd,
+    entrypoint: input.entrypoint,
+    env: input.env,
+    exposedPorts: exposed.length > 0 ? Object.fromEntries(exposed.map((p) => [p, {}])) : undefined,
+    workingDir: input.workingDir,
+    hostname: input.hostname,
+    domainname: input.domainname,
+    user: input.user,
+    tty: input.tty,
+    openStdin: input.openStdin,
+    labels: input.labels,
+    stopSignal: input.stopSignal,
+    stopTimeout: input.stopTimeout,
+    healthcheck: input.healthcheck
+      ? {
+          test: input.healthcheck.test,
+          interval: secondsToNanos(input.healthcheck.interval),
+          timeout: secondsToNanos(input.healthcheck.timeout),
+          startPeriod: secondsToNanos(input.healthcheck.startPeriod),
+          retries: input.healthcheck.retries,
+        }
+      : undefined,
+    hostConfig: {
+      binds: input.volumes,
+      portBindings,
+      publishAllPorts: input.publishAllPorts,
+      mounts: input.mounts,
+      tmpfs: input.tmpfs,
+      volumesFrom: input.volumesFrom,
+      readonlyRootfs: input.readonlyRootfs,
+      restartPolicy: input.restartPolicy,
+      autoRemove: input.autoRemove,
+      memory: input.memory,
+      memorySwap: input.memorySwap,
+      memoryReservation: input.memoryReservation,
+      shmSize: input.shmSize,
+      nanoCpus: input.cpus !== undefined ? Math.round(input.cpus * 1e9) : undefined,
+      cpuShares: input.cpuShares,
+      cpusetCpus: input.cpusetCpus,
+      cpuPeriod: input.cpuPeriod,
+      cpuQuota: input.cpuQuota,
+      pidsLimit: input.pidsLimit,
+      oomKillDisable: input.oomKillDisable,
+      blkioWeight: input.blkioWeight,
+      privileged: input.privileged,
+      capAdd: input.capAdd,
+      capDrop: input.capDrop,
+      securityOpt: input.securityOpt,
+      usernsMode: input.usernsMode,
+      groupAdd: input.groupAdd,
+      devices: input.devices?.map((d) => ({
+        pathOnHost: d.pathOnHost,
+        pathInContainer: d.pathInContainer ?? d.pathOnHost,
+        cgroupPermissions: d.cgroupPermissions,
+      })),
+      deviceRequests: input.deviceRequests,
+      ulimits: input.ulimits,
+      sysctls: input.sysctls,
+      init: input.init,
+      runtime: input.runtime,
+      logConfig: input.logConfig,
+      networkMode: input.networkMode,
+      dns: input.dns,
+      dnsSearch: input.dnsSearch,
+      dnsOptions: input.dnsOptions,
+      extraHosts: input.extraHosts,
+      ipcMode: input.ipcMode,
+      pidMode: input.pidMode,
+    },
+    networkingConfig: endpointsConfig ? { endpointsConfig } : undefined,
+  };
+}
+
+/**
+ * Collect stats samples for a container over a window of time.
+ *
+ * Always returns at least one sample; further samples are taken every interval
+ * until the window has elapsed.
+ */
+async function sampleStats(
+  client: DockerClient,
+  id: string,
+  windowMs: number,
+  intervalMs: number
+): Promise<ContainerStats[]> {
+  const deadline = Date.now() + windowMs;
+  const samples = [await client.getContainerStats(id, false)];
+  while (Date.now() < deadline) {
+    const wait = Math.min(intervalMs, deadline - Date.now());
+    await new Promise((resolve) => setTimeout(resolve, wait));
+    samples.push(await client.getContainerStats(id, false));
+  }
+  return samples;
+}
+
+interface HealthCheckResult {
+  healthy: boolean;
+  /** Health status ('healthy', 'unhealthy', 'starting'), or the container state */
+  status: string;
+  reason?: string;
+  /** Set when the deadline passed before the container became healthy */
+  timedOut?: boolean;
+}
+
+/** How long a container without a healthcheck must keep running to count as healthy */
+const SETTLE_MS = 5000;
+
+/**
+ * Poll a container until it is healthy, unhealthy, has exited or the timeout passes.
+ *
+ * Containers without a healthcheck count as healthy once they have kept running for a
+ * few seconds.
+ */
+async function waitForHealthy(
+  client: DockerClient,
+  id: string,
+  timeoutMs: number,
+  intervalMs = 1000
+): Promise<HealthCheckResult> {
+  const startedAt = Date.now();
+  const deadline = startedAt + timeoutMs;
+
+  while (true) {
+    const { state } = await client.inspectContainer(id);
+    const health = state.health?.status;
+
+    if (!state.running && !state.restarting) {
+      return {
+        healthy: false,
+        status: state.status,
+        reason: `Container exited with code ${state.exitCode}${state.error ? `: ${state.error}` : ''}`,
+      };
+    }
+    if (health === 'healthy') {
+      return { healthy: true, status: health };
+    }
+    if (health === 'unhealthy') {
+      const output = state.health?.log?.at(-1)?.output.trim();
+      return {
+        healthy: false,
+        status: health,
+        reason: `Healthcheck failed${output ? `: ${output}` : ''}`,
+      };
+    }
+    if ((!health || health === 'none') && Date.now() - startedAt >= Math.min(SETTLE_MS, timeoutMs)) {
+      return { healthy: true, status: state.status };
+    }
+    if (Date.now() >= deadline) {
+      return {
+        healthy: false,
+        status: health ?? state.status,
+        reason: `Not healthy within ${Math.round(timeoutMs / 1000)}s`,
+        timedOut: true,
+      };
+    }
+    await new Promise((resolve) => setTimeout(resolve, Math.min(intervalMs, deadline - Date.now())));
+  }
+}
+
+/**
+ * Start a container unless it is already running (e.g. because stopping it failed)
+ */
+async function restartIfStopped(client: DockerClient, id: string): Promise<void> {
+  const container = await client.inspectContainer(id);
+  if (!container.state.running) {
+    await client.startContainer(id);
+  }
+}
+
+/**
+ * Build a create request that reproduces an existing container with a (new) image.
+ *
+ * Values the old container inherited from its image are dropped so the new image's
+ * defaults apply; the generated hostname and network aliases are dropped so Docker
+ * assigns fresh ones; anonymous volumes are bound by name so their data is kept.
+ */
+function toRecreateInput(
+  old: ContainerInspect,
+  image: string,
+  imageConfig?: ContainerConfig
+): ContainerCreateInput {
+  const config = old.config;
+  const shortId = old.id.substring(0, 12);
+  const inherited = <T>(value: T | undefined, fromImage: T | undefined) =>
+    value !== undefined && JSON.stringify(value) === JSON.stringify(fromImage) ? undefined : value;
+  const withoutKeys = <T>(map: Record<string, T> | undefined, fromImage?: Record<string, T>) => {
+    if (!map) return undefined;
+    const kept = Object.entries(map).filter(
+      ([k, v]) => !fromImage || !(k in fromImage) || JSON.stringify(fromImage[k]) !== JSON.stringify(v)
+    );
+    return kept.length > 0 ? Object.fromEntries(kept) : undefined;
+  };
+
+  // Anonymous volumes are recreated empty unless they are bound explicitly
+  const mounted = new Set([
+    ...(old.hostConfig.binds ?? []).map((b) => b.split(':')[1]),
+    ...(old.hostConfig.mounts ?? []).map((m) => m.target),
+  ]);
+  const anonymous = old.mounts
+    .filter((m) => m.type === 'volume' && m.name && /^[0-9a-f]{64}$/.test(m.name) && !mounted.has(m.destination))
+    .map((m) => `${m.name}:${m.destination}${m.rw ? '' : ':ro'}`);
+
+  const networkMode = old.hostConfig.networkMode ?? '';
+  const sharesNetwork = ['host', 'none'].includes(networkMode) || networkMode.startsWith('container:');
+  const endpointsConfig = sharesNetwork
+    ? undefined
+    : Object.fromEntries(
+        Object.entries(old.networkSettings.networks ?? {}).map(([network, endpoint]) => [
+          network,
+          {
+            aliases: endpoint.aliases?.filter((a) => a !== shortId && a !== config.hostname),
+            ipamConfig: endpoint.ipamConfig ?? undefined,
+            links: endpoint.links ?? undefined,
+          },
+        ])
+      );
+
+  return {
+    ...config,
+    image,
+    name: old.name.replace(/^\//, ''),
+    hostname: config.hostname === shortId ? undefined : config.hostname,
+    macAddress: undefined,
+    cmd: inherited(config.cmd, imageConfig?.cmd),
+    entrypoint: inherited(config.entrypoint, imageConfig?.entrypoint),
+    workingDir: inherited(config.workingDir, imageConfig?.workingDir),
+    user: inherited(config.user, imageConfig?.user),
+    healthcheck: inherited(config.healthcheck, imageConfig?.healthcheck),
+    stopSignal: inherited(config.stopSignal, imageConfig?.stopSignal),
+    shell: inherited(config.shell, imageConfig?.shell),
+    env: config.env?.filter((e) => !imageConfig?.env?.includes(e)),
+    labels: withoutKeys(config.labels, imageConfig?.labels),
+    exposedPorts: withoutKeys(config.exposedPorts, imageConfig?.exposedPorts),
+    volumes: withoutKeys(config.volumes, imageConfig?.volumes),
+    hostConfig: {
+      ...old.hostConfig,
+      binds: [...(old.hostConfig.binds ?? []), ...anonymous],
+      links: old.hostConfig.links?.map(toCreateLink),
+    },
+    networkingConfig: endpointsConfig ? { endpointsConfig } : undefined,
+  };
+}
+
+/**
+ * Convert a legacy link from inspect format ("/db:/web/db") to create format ("db:db")
+ */
+function toCreateLink(link: string): string {
+  const [source, target] = link.split(':');
+  return `${source.replace(/^\//, '')}:${target?.split('/').pop() ?? source}`;
+}
+
+/**
+ * Message of a caught error or rejection reason
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Check whether an image is available locally
+ */
+async function imageExists(client: DockerClient, image: string): Promise<boolean> {
+  try {
+    await client.inspectImage(image);
+    return true;
+  } catch (error) {
+    if (error instanceof NotFoundError) return false;
+    throw error;
+  }
+}
+
+/**
+ * Wait for a container to reach a wait condition, giving up after the timeout.
+ *
+ * The pending wait request is aborted at the deadline and undefined is returned.
+ */
+async function waitWithTimeout(
+  client: DockerClient,
+  id: string,
+  timeoutMs: number,
+  condition?: ContainerWaitCondition
+): Promise<{ statusCode: number; error?: { message: string } } | undefined> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await client.waitContainer(id, condition, controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) return undefined;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
 }
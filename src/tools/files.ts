@@ -0,0 +1,396 @@
+/**
+ * File Tools
+ *
+ * MCP tools for reading and writing files inside containers through the archive
+ * endpoint. They work on any container, including images without a shell.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { DockerClient } from '../client.js';
+import type { ContainerPathStat } from '../types/entities.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { fromBase64, readBodyLimited, toBase64 } from '../utils/streams.js';
+import { createTar, parseTar, type TarInput } from '../utils/tar.js';
+
+/** Default and maximum size of a file returned by docker_read_file */
+const DEFAULT_READ_BYTES = 1024 * 1024;
+const MAX_READ_BYTES = 10 * 1024 * 1024;
+
+/** Default and maximum archive size read when listing a directory */
+const DEFAULT_LIST_BYTES = 16 * 1024 * 1024;
+const MAX_LIST_BYTES = 64 * 1024 * 1024;
+
+/** Maximum total size of the files uploaded in one call */
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/** Go os.FileMode type bits */
+const MODE_DIR = 2 ** 31;
+const MODE_SYMLINK = 2 ** 27;
+/** Device, named pipe, socket, character device and irregular file bits */
+const MODE_SPECIAL = (2 ** 26) | (2 ** 25) | (2 ** 24) | (2 ** 21) | (2 ** 19);
+
+/**
+ * Register all container file tools
+ */
+export function registerFileTools(server: McpServer, client: DockerClient): void {
+  // ===========================================================================
+  // Stat Path
+  // ===========================================================================
+  server.tool(
+    'docker_stat_path',
+    `Get information about a file or directory inside a container.
+
+Args:
+  - id: Container ID or name
+  - path: Absolute path inside the container
+
+Returns:
+  Name, type (file, directory, symlink or other), size, permissions, modification
+  time and link target.`,
+    {
+      id: z.string().describe('Container ID or name'),
+      path: z.string().describe('Absolute path inside the container'),
+    },
+    async ({ id, path }) => {
+      try {
+        const stat = await statPath(client, id, path);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(describeStat(path, stat), null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // List Directory
+  // ===========================================================================
+  server.tool(
+    'docker_list_directory',
+    `List the contents of a directory inside a container.
+
+The directory is downloaded as a tar archive, so the whole tree counts towards
+maxBytes even when not listing recursively.
+
+Args:
+  - id: Container ID or name
+  - path: Absolute directory path inside the container
+  - recursive: Include entries of subdirectories (default: false)
+  - limit: Maximum number of entries to return (default: 500)
+  - maxBytes: Maximum archive size to read (default: 16 MiB, max 64 MiB)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Entries with name, type, size, permissions and modification time. hasMore is set
+  when the limit or maxBytes was reached.`,
+    {
+      id: z.string().describe('Container ID or name'),
+      path: z.string().describe('Absolute directory path'),
+      recursive: z.boolean().default(false).describe('Include subdirectories'),
+      limit: z.number().int().min(1).max(10000).default(500).describe('Maximum entries to return'),
+      maxBytes: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_LIST_BYTES)
+        .default(DEFAULT_LIST_BYTES)
+        .describe('Maximum archive size to read'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ id, path, recursive, limit, maxBytes, format }) => {
+      try {
+        const stat = await statPath(client, id, path);
+        if (!(stat.mode & MODE_DIR)) {
+          throw new ValidationError(`${path} is not a directory`, {
+            path: ['Expected a directory'],
+          });
+        }
+
+        const archive = await client.getContainerArchive(id, path);
+        const { bytes, truncated } = await readBodyLimited(archive, maxBytes);
+        const { entries } = parseTar(bytes);
+
+        // Entry names start with the directory's own name, which is dropped here
+        const items = entries
+          .map((e) => ({ ...e, name: e.name.replace(/\/$/, '').split('/').slice(1).join('/') }))
+          .filter((e) => e.name !== '' && (recursive || !e.name.includes('/')))
+          .map((e) => ({
+            name: e.name,
+            type: e.type,
+            size: e.size,
+            permissions: formatPermissions(e.mode),
+            modified: new Date(e.mtime * 1000).toISOString(),
+            linkTarget: e.linkName,
+          }));
+
+        const page = items.slice(0, limit);
+        return formatResponse(
+          {
+            path,
+            items: page,
+            count: page.length,
+            hasMore: truncated || items.length > limit,
+            truncated,
+          },
+          format,
+          'files'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Read File
+  // ===========================================================================
+  server.tool(
+    'docker_read_file',
+    `Read a file from a container.
+
+Symlinks are followed. Files larger than maxBytes are rejected.
+
+Args:
+  - id: Container ID or name
+  - path: Absolute file path inside the container
+  - encoding: Return the content as 'utf8' text or 'base64' (default: utf8)
+  - maxBytes: Maximum file size (default: 1 MiB, max 10 MiB)
+
+Returns:
+  File path, size, modification time and content.`,
+    {
+      id: z.string().describe('Container ID or name'),
+      path: z.string().describe('Absolute file path'),
+      encoding: z.enum(['utf8', 'base64']).default('utf8').describe('Content encoding'),
+      maxBytes: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_READ_BYTES)
+        .default(DEFAULT_READ_BYTES)
+        .describe('Maximum file size'),
+    },
+    async ({ id, path, encoding, maxBytes }) => {
+      try {
+        let stat = await statPath(client, id, path);
+        let target = path;
+        if (stat.mode & MODE_SYMLINK && stat.linkTarget) {
+          target = stat.linkTarget;
+          stat = await statPath(client, id, target);
+        }
+        if (stat.mode & MODE_DIR) {
+          throw new ValidationError(`${path} is a directory`, {
+            path: ['Use docker_list_directory for directories'],
+          });
+        }
+        if (stat.size > maxBytes) {
+          throw new ValidationError(
+            `${path} is ${stat.size} bytes, larger than maxBytes (${maxBytes})`,
+            { maxBytes: [`File size is ${stat.size} bytes`] }
+          );
+        }
+
+        const archive = await client.getContainerArchive(id, target);
+        // Leave room for the tar headers around the file
+        const { bytes } = await readBodyLimited(archive, maxBytes + 64 * 1024);
+        const file = parseTar(bytes, { includeData: true }).entries.find((e) => e.type === 'file');
+        if (!file?.data) {
+          throw new ValidationError(`${path} is not a regular file`, {
+            path: ['Expected a regular file'],
+          });
+        }
+
+        let content: string;
+        if (encoding === 'base64') {
+          content = toBase64(file.data);
+        } else {
+          try {
+            content = new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(file.data);
+          } catch {
+            throw new ValidationError(`${path} is not valid UTF-8 text`, {
+              encoding: ["Use encoding 'base64' for binary files"],
+            });
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  path,
+                  resolvedPath: target !== path ? target : undefined,
+                  size: file.size,
+                  modified: stat.mtime,
+                  encoding,
+                  content,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Upload Files
+  // ===========================================================================
+  server.tool(
+    'docker_upload_files',
+    `Upload one or more files into a container.
+
+The files are packed into a tar archive and extracted into the target directory,
+which must already exist. Intermediate directories in file names are created.
+
+Args:
+  - id: Container ID or name
+  - path: Absolute directory inside the container to extract into
+  - files: Files to upload ({name, content, encoding, mode}); name is relative to path
+  - noOverwriteDirNonDir: Fail instead of replacing a directory with a file or vice versa
+  - copyUidGid: Give the files the container user's ownership instead of root
+
+Total upload size is limited to 10 MiB.
+
+Returns:
+  Confirmation with the uploaded file names and total size.`,
+    {
+      id: z.string().describe('Container ID or name'),
+      path: z.string().describe('Target directory inside the container'),
+      files: z
+        .array(
+          z.object({
+            name: z.string().min(1).describe('Path relative to the target directory'),
+            content: z.string().describe('File content'),
+            encoding: z.enum(['utf8', 'base64']).default('utf8').describe('Content encoding'),
+            mode: z
+              .string()
+              .regex(/^0?[0-7]{3,4}$/)
+              .optional()
+              .describe('Octal permissions (e.g., "0755")'),
+          })
+        )
+        .min(1)
+        .describe('Files to upload'),
+      noOverwriteDirNonDir: z.boolean().default(false).describe('Do not replace dirs with files'),
+      copyUidGid: z.boolean().default(false).describe("Use the container user's ownership"),
+    },
+    async ({ id, path, files, noOverwriteDirNonDir, copyUidGid }) => {
+      try {
+        const encoder = new TextEncoder();
+        const inputs = files.map((file) => {
+          const name = file.name.replace(/^\/+/, '');
+          if (name.split('/').includes('..')) {
+            throw new ValidationError(`Invalid file name: ${file.name}`, {
+              files: ['File names must not contain ".." segments'],
+            });
+          }
+          return {
+            name,
+            data:
+              file.encoding === 'base64' ? fromBase64(file.content) : encoder.encode(file.content),
+            mode: file.mode ? Number.parseInt(file.mode, 8) : undefined,
+          };
+        });
+
+        const totalBytes = inputs.reduce((sum, f) => sum + f.data.byteLength, 0);
+        if (totalBytes > MAX_UPLOAD_BYTES) {
+          throw new ValidationError(
+            `Upload is ${totalBytes} bytes, larger than the ${MAX_UPLOAD_BYTES} byte limit`,
+            { files: ['Reduce the number or size of files'] }
+          );
+        }
+
+        const archive = createTar(withParentDirectories(inputs));
+        await client.putContainerArchive(id, path, archive, { noOverwriteDirNonDir, copyUidGid });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Uploaded ${inputs.length} file(s) to ${path}`,
+                  files: inputs.map((f) => f.name),
+                  totalBytes,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * Stat a path, reporting a missing path rather than a generic missing resource
+ */
+async function statPath(
+  client: DockerClient,
+  id: string,
+  path: string
+): Promise<ContainerPathStat> {
+  try {
+    return await client.statContainerPath(id, path);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw new NotFoundError('Path (or container)', `${id}:${path}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describe a path stat in terms of file type and octal permissions
+ */
+function describeStat(path: string, stat: ContainerPathStat) {
+  let type = 'file';
+  if (stat.mode & MODE_DIR) type = 'directory';
+  else if (stat.mode & MODE_SYMLINK) type = 'symlink';
+  else if (stat.mode & MODE_SPECIAL) type = 'other';
+
+  return {
+    path,
+    name: stat.name,
+    type,
+    size: stat.size,
+    permissions: formatPermissions(stat.mode),
+    modified: stat.mtime,
+    linkTarget: stat.linkTarget || undefined,
+  };
+}
+
+/**
+ * Format the permission bits of a mode as octal (e.g., "0644")
+ */
+function formatPermissions(mode: number): string {
+  return (mode & 0o7777).toString(8).padStart(4, '0');
+}
+
+/**
+ * Add directory entries for the parents of nested file names so they are created
+ * on extraction
+ */
+function withParentDirectories(inputs: TarInput[]): TarInput[] {
+  const directories = new Set<string>();
+  for (const input of inputs) {
+    const parts = input.name.split('/').slice(0, -1);
+    for (let i = 1; i <= parts.length; i++) {
+      directories.add(parts.slice(0, i).join('/'));
+    }
+  }
+  return [...[...directories].map((name) => ({ name, type: 'directory' as const })), ...inputs];
+}
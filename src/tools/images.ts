@@ -7,12 +7,34 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DockerClient } from '../client.js';
+import type {
+  DistributionInspect,
+  ImageInspect,
+  ImageLayerAnalysis,
+  ImageUpdateStatus,
+} from '../types/entities.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { containerName } from '../utils/containers.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { analyzeLayers, compareImages } from '../utils/layers.js';
+import { artifactKey, requireArtifactBucket, uploadStream } from '../utils/r2.js';
+import { createTar, type TarInput } from '../utils/tar.js';
+
+/** Maximum size of an inline build context */
+const MAX_CONTEXT_BYTES = 10 * 1024 * 1024;
 
 /**
  * Register all image-related tools
+ *
+ * @param artifacts - R2 bucket for image tarballs (optional; the save and load tools
+ *   fail without it)
  */
-export function registerImageTools(server: McpServer, client: DockerClient): void {
+export function registerImageTools(
+  server: McpServer,
+  client: DockerClient,
+  artifacts?: R2Bucket
+): void {
   // ===========================================================================
   // List Images
   // ===========================================================================
@@ -97,6 +119,95 @@ Returns:
     }
   );
 
+  // ===========================================================================
+  // Analyze Image Layers
+  // ===========================================================================
+  server.tool(
+    'docker_analyze_image',
+    `Analyze the layers of an image.
+
+Ranks layers by size, attributes each to the Dockerfile instruction that created it,
+and flags likely wasted space: package manager caches left in a layer, and files
+added in one layer and removed in a later one (they still take up space in the
+earlier layer). Findings are based on the recorded instructions, not on layer
+contents.
+
+Args:
+  - name: Image name or ID
+  - limit: Number of largest layers to return (default: 10)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Image size, number of layers, the largest layers with their instruction and share
+  of the image size, and findings.`,
+    {
+      name: z.string().describe('Image name or ID'),
+      limit: z.number().int().min(1).max(200).default(10).describe('Layers to return'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ name, limit, format }) => {
+      try {
+        const [image, history] = await Promise.all([
+          client.inspectImage(name),
+          client.getImageHistory(name),
+        ]);
+        const { layers, emptyLayers, findings } = analyzeLayers(history);
+        const analysis: ImageLayerAnalysis = {
+          image: name,
+          id: image.id,
+          size: image.size,
+          layerCount: layers.length,
+          emptyLayers,
+          layers: layers.slice(0, limit),
+          findings,
+        };
+        return formatResponse(analysis, format, 'image_analysis');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Compare Images
+  // ===========================================================================
+  server.tool(
+    'docker_compare_images',
+    `Compare two images, e.g. two release tags of the same application.
+
+Args:
+  - base: Image name or ID to compare from
+  - target: Image name or ID to compare to
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Changes to environment variables, labels, exposed ports, entrypoint, command, user
+  and working directory, and the layers shared by both images and unique to each
+  (with the instruction that created them, where known).`,
+    {
+      base: z.string().describe('Image to compare from'),
+      target: z.string().describe('Image to compare to'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ base, target, format }) => {
+      try {
+        const [baseImage, baseHistory, targetImage, targetHistory] = await Promise.all([
+          client.inspectImage(base),
+          client.getImageHistory(base),
+          client.inspectImage(target),
+          client.getImageHistory(target),
+        ]);
+        const comparison = compareImages(
+          { name: base, inspect: baseImage, history: baseHistory },
+          { name: target, inspect: targetImage, history: targetHistory }
+        );
+        return formatResponse(comparison, format, 'image_comparison');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   // ===========================================================================
   // Pull Image
   // ===========================================================================
@@ -110,8 +221,13 @@ Args:
   - username: Registry username (optional)
   - password: Registry password (optional)
 
+Credentials are normally taken from the X-Docker-Registry* headers (for images on
+that registry) or the Docker Hub headers (for Docker Hub images); username and
+password are only needed to override them.
+
 Returns:
-  Pull progress and result.`,
+  Final status, image digest, total bytes downloaded and the final status of each
+  layer. A failed pull is reported as an error.`,
     {
       image: z.string().describe('Image name'),
       tag: z.string().default('latest').describe('Tag to pull'),
@@ -129,7 +245,7 @@ Returns:
               text: JSON.stringify({
                 success: true,
                 message: `Image ${image}:${tag} pulled`,
-                output: result,
+                ...result,
               }, null, 2),
             },
           ],
@@ -150,20 +266,26 @@ Returns:
 Args:
   - name: Image name (e.g., "myregistry.com/myimage")
   - tag: Tag to push (optional)
-  - username: Registry username
-  - password: Registry password
+  - username: Registry username (optional)
+  - password: Registry password (optional)
+
+Credentials are normally taken from the X-Docker-Registry* headers (for images on
+that registry) or the Docker Hub headers (for Docker Hub images); username and
+password are only needed to override them.
 
 Returns:
-  Push progress and result.`,
+  Pushed digest, total bytes uploaded and the final status of each layer. A failed
+  push is reported as an error.`,
     {
       name: z.string().describe('Image name'),
       tag: z.string().optional().describe('Tag to push'),
-      username: z.string().describe('Registry username'),
-      password: z.string().describe('Registry password'),
+      username: z.string().optional().describe('Registry username'),
+      password: z.string().optional().describe('Registry password'),
     },
     async ({ name, tag, username, password }) => {
       try {
-        const result = await client.pushImage(name, tag, { username, password });
+        const auth = username && password ? { username, password } : undefined;
+        const result = await client.pushImage(name, tag, auth);
         return {
           content: [
             {
@@ -171,7 +293,7 @@ Returns:
               text: JSON.stringify({
                 success: true,
                 message: `Image ${name}${tag ? ':' + tag : ''} pushed`,
-                output: result,
+                ...result,
               }, null, 2),
             },
           ],
@@ -325,4 +447,353 @@ Returns:
       }
     }
   );
+
+  // ===========================================================================
+  // Build Image
+  // ===========================================================================
+  server.tool(
+    'docker_build_image',
+    `Build an image from a Dockerfile.
+
+The build context is either a Dockerfile plus optional context files, which are
+packed into a tar archive, or a remote git repository or tarball URL.
+
+Args:
+  - dockerfile: Dockerfile content (required unless remote is set)
+  - files: Context files as a map of relative path to UTF-8 content
+  - remote: Git repository or tarball URL to use as the build context
+  - dockerfilePath: Path of the Dockerfile within a remote context (default: "Dockerfile")
+  - tags: Names to tag the image with (e.g., ["myapp:1.0"])
+  - buildArgs: Build-time variables
+  - target: Build stage to stop at
+  - platform: Target platform (e.g., "linux/amd64")
+  - labels: Labels to set on the image
+  - cacheFrom: Images to use as cache sources
+  - noCache: Do not use the build cache
+  - pull: Always pull newer versions of base images
+
+The inline context is limited to 10 MiB.
+
+Returns:
+  Success flag, image ID, tags, output of each build step (whether it was cached),
+  warnings and, when the build failed, the error and the step it failed in.`,
+    {
+      dockerfile: z.string().optional().describe('Dockerfile content'),
+      files: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe('Context files (relative path to content)'),
+      remote: z.string().optional().describe('Git repository or tarball URL'),
+      dockerfilePath: z.string().optional().describe('Dockerfile path within a remote context'),
+      tags: z.array(z.string()).default([]).describe('Image tags'),
+      buildArgs: z.record(z.string(), z.string()).optional().describe('Build-time variables'),
+      target: z.string().optional().describe('Build stage to stop at'),
+      platform: z.string().optional().describe('Target platform'),
+      labels: z.record(z.string(), z.string()).optional().describe('Image labels'),
+      cacheFrom: z.array(z.string()).optional().describe('Cache source images'),
+      noCache: z.boolean().default(false).describe('Do not use the build cache'),
+      pull: z.boolean().default(false).describe('Always pull base images'),
+    },
+    async (args) => {
+      try {
+        if (!args.dockerfile && !args.remote) {
+          throw new ValidationError('Either dockerfile or remote is required', {
+            dockerfile: ['Provide the Dockerfile content or a remote build context'],
+          });
+        }
+        if (args.remote && (args.dockerfile || args.files)) {
+          throw new ValidationError('remote cannot be combined with dockerfile or files', {
+            remote: ['Use either a remote context or an inline Dockerfile'],
+          });
+        }
+
+        const context = args.dockerfile ? buildContext(args.dockerfile, args.files) : undefined;
+        const result = await client.buildImage(
+          {
+            remote: args.remote,
+            dockerfile: args.remote ? args.dockerfilePath : undefined,
+            t: args.tags.length > 0 ? args.tags : undefined,
+            buildargs: args.buildArgs,
+            target: args.target,
+            platform: args.platform,
+            labels: args.labels,
+            cachefrom: args.cacheFrom,
+            nocache: args.noCache || undefined,
+            pull: args.pull ? 'true' : undefined,
+          },
+          context
+        );
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Save Images
+  // ===========================================================================
+  server.tool(
+    'docker_save_images',
+    `Save one or more images as a tarball to R2 storage.
+
+The tarball is streamed from the daemon to the DOCKER_ARTIFACTS bucket without being
+buffered in full, and can be loaded on another host with docker_load_image.
+Requires the DOCKER_ARTIFACTS R2 binding.
+
+Args:
+  - images: Image names or IDs to save
+  - key: Object key (default: images/<image>/<timestamp>.tar)
+
+Returns:
+  Object key, size in bytes, ETag and the saved images with their IDs and tags.`,
+    {
+      images: z.array(z.string()).min(1).describe('Image names or IDs'),
+      key: z.string().optional().describe('R2 object key'),
+    },
+    async ({ images, key }) => {
+      try {
+        const bucket = requireArtifactBucket(artifacts);
+        const inspected = await Promise.all(images.map((name) => client.inspectImage(name)));
+        const objectKey =
+          key ?? artifactKey('images', images.length === 1 ? images[0] : 'bundle', 'tar');
+        const result = await uploadStream(bucket, objectKey, await client.saveImages(images), {
+          contentType: 'application/x-tar',
+          customMetadata: { images: images.join(',') },
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                message: `Saved ${images.length} image(s) to ${result.key}`,
+                key: result.key,
+                size: result.size,
+                etag: result.etag,
+                images: inspected.map((image, i) => ({
+                  name: images[i],
+                  id: image.id,
+                  tags: image.repoTags ?? [],
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Load Image
+  // ===========================================================================
+  server.tool(
+    'docker_load_image',
+    `Load images from a tarball in R2 storage.
+
+The object is streamed from the DOCKER_ARTIFACTS bucket to the daemon without being
+buffered in full. Accepts tarballs written by docker_save_images or docker save.
+Requires the DOCKER_ARTIFACTS R2 binding.
+
+Args:
+  - key: Object key of the tarball
+
+Returns:
+  The loaded images with their IDs and tags.`,
+    {
+      key: z.string().describe('R2 object key'),
+    },
+    async ({ key }) => {
+      try {
+        const bucket = requireArtifactBucket(artifacts);
+        const object = await bucket.get(key);
+        if (!object) {
+          throw new NotFoundError('Artifact', key);
+        }
+
+        const { loaded } = await client.loadImage(object.body);
+        const inspected = await Promise.all(loaded.map((ref) => client.inspectImage(ref)));
+        // Images with several tags are reported once per tag
+        const loadedImages = new Map<string, { id: string; tags: string[] }>();
+        for (const image of inspected) {
+          loadedImages.set(image.id, { id: image.id, tags: image.repoTags ?? [] });
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                message: `Loaded ${loadedImages.size} image(s) from ${key}`,
+                key,
+                size: object.size,
+                images: [...loadedImages.values()],
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Check Image Updates
+  // ===========================================================================
+  server.tool(
+    'docker_check_image_updates',
+    `Find running containers whose image tag now points at a newer image in the registry.
+
+Compares the registry digests of each container's local image with the digest the
+registry currently returns for the image reference. Containers started from an image
+ID or a digest-pinned reference, and images without a registry digest (built or
+loaded locally), are reported as unknown.
+
+Args:
+  - all: Also return up-to-date containers and those that could not be checked
+  - username: Registry username (optional, for private images)
+  - password: Registry password (optional)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Containers with their image, status (outdated, up-to-date or unknown), local and
+  remote digests, and the platforms available for the remote digest.`,
+    {
+      all: z.boolean().default(false).describe('Include up-to-date and unchecked containers'),
+      username: z.string().optional().describe('Registry username'),
+      password: z.string().optional().describe('Registry password'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ all, username, password, format }) => {
+      try {
+        const auth = username && password ? { username, password } : undefined;
+        const containers = await client.listContainers(false);
+        const checkable = containers.filter((c) => isTagReference(c.image));
+
+        const refs = [...new Set(checkable.map((c) => c.image))];
+        const imageIds = [...new Set(checkable.map((c) => c.imageId))];
+        const [remote, local] = await Promise.all([
+          mapWithConcurrency(refs, 4, (ref) => client.inspectDistribution(ref, auth)),
+          mapWithConcurrency(imageIds, 4, (id) => client.inspectImage(id)),
+        ]);
+        const remoteByRef = new Map(refs.map((ref, i) => [ref, remote[i]]));
+        const localById = new Map(imageIds.map((id, i) => [id, local[i]]));
+
+        const items: ImageUpdateStatus[] = containers.map((c) => {
+          const base = {
+            containerId: c.id.substring(0, 12),
+            containerName: containerName(c),
+            image: c.image,
+            platforms: [] as string[],
+          };
+          if (!isTagReference(c.image)) {
+            return { ...base, status: 'unknown', reason: 'not started from a tag' };
+          }
+          return compareDigests(base, localById.get(c.imageId), remoteByRef.get(c.image));
+        });
+
+        const results = all ? items : items.filter((item) => item.status === 'outdated');
+        return formatResponse(
+          { items: results, count: results.length, total: items.length, hasMore: false },
+          format,
+          'image_updates'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * Pack an inline Dockerfile and context files into a tar archive
+ */
+function buildContext(dockerfile: string, files: Record<string, string> = {}): Uint8Array {
+  const inputs: TarInput[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    const name = path.replace(/^(\.\/|\/)+/, '');
+    if (!name || name.split('/').includes('..')) {
+      throw new ValidationError(`Invalid context file name: ${path}`, {
+        files: ['File names must be relative and must not contain ".." segments'],
+      });
+    }
+    if (name === 'Dockerfile') {
+      throw new ValidationError('The Dockerfile must be passed as dockerfile, not in files', {
+        files: ['Remove the Dockerfile entry'],
+      });
+    }
+    inputs.push({ name, data: content });
+  }
+  inputs.push({ name: 'Dockerfile', data: dockerfile });
+
+  const archive = createTar(inputs);
+  if (archive.byteLength > MAX_CONTEXT_BYTES) {
+    throw new ValidationError(
+      `Build context is ${archive.byteLength} bytes, larger than the ${MAX_CONTEXT_BYTES} byte limit`,
+      { files: ['Reduce the number or size of context files, or use a remote context'] }
+    );
+  }
+  return archive;
+}
+
+/**
+ * Whether an image reference names a tag, rather than an image ID or a digest
+ */
+function isTagReference(image: string): boolean {
+  return !image.includes('@') && !/^(sha256:)?[0-9a-f]{12,64}$/.test(image);
+}
+
+/**
+ * Repository of an image reference, without the default Docker Hub registry and
+ * "library/" prefix (e.g., "docker.io/library/nginx:1.25" -> "nginx")
+ */
+function repositoryOf(image: string): string {
+  const name = image.replace(/@.*$/, '').replace(/:[^/]*$/, '');
+  return name.replace(/^(docker\.io|index\.docker\.io)\//, '').replace(/^library\//, '');
+}
+
+/**
+ * Compare the registry digests of a local image with the current remote digest
+ */
+function compareDigests(
+  base: Omit<ImageUpdateStatus, 'status'>,
+  local: PromiseSettledResult<ImageInspect> | undefined,
+  remote: PromiseSettledResult<DistributionInspect> | undefined
+): ImageUpdateStatus {
+  if (remote?.status !== 'fulfilled') {
+    const reason = remote?.reason instanceof Error ? remote.reason.message : 'registry lookup failed';
+    return { ...base, status: 'unknown', reason };
+  }
+  const remoteDigest = remote.value.descriptor.digest;
+  const platforms = (remote.value.platforms ?? []).map((p) =>
+    [p.os, p.architecture, p.variant].filter(Boolean).join('/')
+  );
+
+  const repository = repositoryOf(base.image);
+  const localDigests =
+    local?.status === 'fulfilled'
+      ? (local.value.repoDigests ?? [])
+          .filter((d) => repositoryOf(d) === repository)
+          .map((d) => d.slice(d.indexOf('@') + 1))
+      : [];
+  if (localDigests.length === 0) {
+    return { ...base, status: 'unknown', remoteDigest, platforms, reason: 'no registry digest' };
+  }
+
+  const upToDate = localDigests.includes(remoteDigest);
+  return {
+    ...base,
+    status: upToDate ? 'up-to-date' : 'outdated',
+    localDigest: upToDate ? remoteDigest : localDigests[0],
+    remoteDigest,
+    platforms,
+  };
 }
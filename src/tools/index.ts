@@ -1,9 +1,11 @@
 export { registerContainerTools } from './containers.js';
 export { registerExecTools } from './exec.js';
+export { registerFileTools } from './files.js';
 export { registerHubTools } from './hub.js';
 export { registerImageTools } from './images.js';
 export { registerNetworkTools } from './networks.js';
 export { registerPluginTools } from './plugins.js';
+export { registerRegistryTools } from './registry.js';
 export { registerSecretsConfigsTools } from './secrets.js';
 export { registerSwarmTools } from './swarm.js';
 export { registerSystemTools } from './system.js';
@@ -7,7 +7,32 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DockerClient } from '../client.js';
+import type {
+  ConnectivityProbe,
+  Container,
+  ContainerInspect,
+  IPAMConfig,
+  Network,
+  NetworkTopology,
+  PortMapping,
+  ProbeStep,
+  TopologyEdge,
+  TopologyNode,
+} from '../types/entities.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { containerName } from '../utils/containers.js';
+import { DockerApiError, NotFoundError, ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import type { Cidr } from '../utils/ipam.js';
+import { cidrContains, cidrsOverlap, findFreeSubnet, parseCidr, parseIp } from '../utils/ipam.js';
+import type { ProbeOptions, ProbeOutput } from '../utils/probe.js';
+import { parseProbeOutput, probeCommand } from '../utils/probe.js';
+import { parseImageReference } from '../utils/registry.js';
+import { toAdjacencyList, toDot, toMermaid } from '../utils/topology.js';
+
+/** Pools that subnets are allocated and suggested from when none is given */
+const DEFAULT_IPV4_POOL = '172.16.0.0/12';
+const DEFAULT_IPV6_POOL = 'fd00::/48';
 
 /**
  * Register all network-related tools
@@ -79,6 +104,13 @@ Returns:
     'docker_create_network',
     `Create a new network.
 
+Requested subnets are checked against the subnets of all existing networks (and
+each other) before the network is created. Subnets left out are allocated by the
+daemon from its default address pools. With allocate (or pool/ipv6Pool) set, a
+bridge or overlay network using the default IPAM driver gets the first free subnet
+of prefixLength in pool instead (and, with enableIPv6, a /64 from ipv6Pool). A dry
+run reports the subnets that would be allocated this way as suggestions.
+
 Args:
   - name: Network name (required)
   - driver: Network driver (default: "bridge")
@@ -88,10 +120,21 @@ Args:
   - subnet: Subnet in CIDR format (e.g., "172.28.0.0/16")
   - gateway: Gateway address
   - ipRange: IP range to allocate from
+  - auxAddresses: Reserved addresses (hostname to IP) within subnet
+  - ipamConfigs: Several IPAM configs (e.g., IPv4 and IPv6), instead of subnet,
+    gateway, ipRange and auxAddresses
+  - ipamDriver: IPAM driver (default: "default")
+  - allocate: Allocate missing subnets from pool and ipv6Pool (default: false)
+  - pool: Pool to allocate IPv4 subnets from (default: "172.16.0.0/12"); implies allocate
+  - prefixLength: Prefix length of allocated IPv4 subnets (default: 24)
+  - ipv6Pool: Pool to allocate IPv6 subnets from (default: "fd00::/48"); implies allocate
+  - options: Driver options (e.g., {"com.docker.network.bridge.name": "br-app"})
   - labels: Network labels
+  - dryRun: Only check and plan the IPAM configuration, without creating the network
 
 Returns:
-  Created network ID.`,
+  Created network ID, the IPAM configs used and the subnets that were allocated
+  (on a dry run, also the suggested subnets).`,
     {
       name: z.string().describe('Network name'),
       driver: z.string().default('bridge').describe('Network driver'),
@@ -101,29 +144,99 @@ Returns:
       subnet: z.string().optional().describe('Subnet in CIDR format'),
       gateway: z.string().optional().describe('Gateway address'),
       ipRange: z.string().optional().describe('IP range to allocate from'),
+      auxAddresses: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe('Reserved addresses (hostname to IP)'),
+      ipamConfigs: z
+        .array(
+          z.object({
+            subnet: z.string().optional().describe('Subnet in CIDR format'),
+            gateway: z.string().optional().describe('Gateway address'),
+            ipRange: z.string().optional().describe('IP range to allocate from'),
+            auxAddresses: z
+              .record(z.string(), z.string())
+              .optional()
+              .describe('Reserved addresses (hostname to IP)'),
+          })
+        )
+        .optional()
+        .describe('IPAM configs'),
+      ipamDriver: z.string().default('default').describe('IPAM driver'),
+      allocate: z.boolean().default(false).describe('Allocate missing subnets from the pools'),
+      pool: z.string().optional().describe('IPv4 allocation pool'),
+      prefixLength: z.number().int().min(8).max(30).default(24).describe('Allocated prefix length'),
+      ipv6Pool: z.string().optional().describe('IPv6 allocation pool'),
+      options: z.record(z.string(), z.string()).optional().describe('Driver options'),
       labels: z.record(z.string(), z.string()).optional().describe('Network labels'),
+      dryRun: z.boolean().default(false).describe('Only plan, do not create'),
     },
-    async ({ name, driver, internal, attachable, enableIPv6, subnet, gateway, ipRange, labels }) => {
+    async (args) => {
       try {
-        const ipam = subnet || gateway || ipRange
-          ? {
-              driver: 'default',
-              config: [{
-                subnet,
-                gateway,
-                ipRange,
-              }],
-            }
-          : undefined;
+        if (args.ipamConfigs && (args.subnet || args.gateway || args.ipRange || args.auxAddresses)) {
+          throw new ValidationError(
+            'ipamConfigs cannot be combined with subnet, gateway, ipRange or auxAddresses',
+            { ipamConfigs: ['Move the single config into ipamConfigs'] }
+          );
+        }
+
+        const requested: IPAMConfig[] = (
+          args.ipamConfigs ??
+          (args.subnet || args.gateway || args.ipRange || args.auxAddresses ? [args] : [])
+        ).map((c) => ({
+          subnet: c.subnet,
+          gateway: c.gateway,
+          ipRange: c.ipRange,
+          auxAddress: c.auxAddresses,
+        }));
+
+        const allocate = args.allocate || args.pool !== undefined || args.ipv6Pool !== undefined;
+        const allocatable =
+          (args.driver === 'bridge' || args.driver === 'overlay') && args.ipamDriver === 'default';
+        if (allocate && !allocatable) {
+          throw new ValidationError(
+            'Subnets can only be allocated for bridge and overlay networks with the default IPAM driver',
+            { allocate: ['Pass subnet or ipamConfigs, or leave allocation to the IPAM driver'] }
+          );
+        }
+
+        const existing = await client.listNetworks();
+        const plan = planIpam(requested, existing, {
+          allocate,
+          suggest: allocatable,
+          enableIPv6: args.enableIPv6 ?? false,
+          pool: args.pool ?? DEFAULT_IPV4_POOL,
+          prefixLength: args.prefixLength,
+          ipv6Pool: args.ipv6Pool ?? DEFAULT_IPV6_POOL,
+        });
+        const ipam = plan.config.length > 0 ? { driver: args.ipamDriver, config: plan.config } : undefined;
+
+        if (args.dryRun) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  message: `Network ${args.name} can be created`,
+                  ipam,
+                  allocated: plan.allocated,
+                  suggested: plan.suggested.length > 0 ? plan.suggested : undefined,
+                }, null, 2),
+              },
+            ],
+          };
+        }
 
         const result = await client.createNetwork({
-          name,
-          driver,
-          internal,
-          attachable,
-          enableIPv6,
+          name: args.name,
+          driver: args.driver,
+          internal: args.internal,
+          attachable: args.attachable,
+          enableIPv6: args.enableIPv6,
           ipam,
-          labels,
+          options: args.options,
+          labels: args.labels,
         });
         return {
           content: [
@@ -131,8 +244,10 @@ Returns:
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                message: `Network ${name} created`,
+                message: `Network ${args.name} created`,
                 networkId: result.id,
+                ipam,
+                allocated: plan.allocated.length > 0 ? plan.allocated : undefined,
                 warning: result.warning || undefined,
               }, null, 2),
             },
@@ -206,12 +321,6 @@ Returns:
                   ? { ipv4Address, ipv6Address }
                   : undefined,
                 aliases,
-                networkId: '',
-                endpointId: '',
-                gateway: '',
-                ipAddress: '',
-                ipPrefixLen: 0,
-                macAddress: '',
               }
             : undefined,
         });
@@ -300,4 +409,755 @@ Returns:
       }
     }
   );
+
+  // ===========================================================================
+  // Port Map
+  // ===========================================================================
+  server.tool(
+    'docker_port_map',
+    `Show which containers and swarm services publish which host ports.
+
+Combines the published ports of running containers, the requested PortBindings of
+containers that are not running, and the ingress ports of swarm services. Flags
+bindings on all interfaces (0.0.0.0) and host ports claimed by more than one
+container or service.
+
+Args:
+  - port: Only show this host port
+  - includeStopped: Include requested bindings of stopped containers (default: true)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Port mappings sorted by host port, the names bound to all interfaces, and conflicts.`,
+    {
+      port: z.number().int().min(1).max(65535).optional().describe('Only show this host port'),
+      includeStopped: z.boolean().default(true).describe('Include stopped containers'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ port, includeStopped, format }) => {
+      try {
+        const mappings: PortMapping[] = [];
+        const containers = await client.listContainers(includeStopped);
+
+        for (const c of containers.filter((c) => ACTIVE_STATES.has(c.state))) {
+          for (const p of c.ports) {
+            if (!p.publicPort) continue;
+            mappings.push({
+              ...hostAddress(p.ip),
+              hostPort: p.publicPort,
+              protocol: p.type,
+              targetPort: p.privatePort,
+              source: 'container',
+              id: c.id.substring(0, 12),
+              name: containerName(c),
+              state: c.state,
+              binding: 'active',
+            });
+          }
+        }
+
+        // Bindings of stopped containers are only known from their HostConfig
+        const stopped = containers.filter((c) => !ACTIVE_STATES.has(c.state));
+        const inspected = await mapWithConcurrency(stopped, 5, (c) => client.inspectContainer(c.id));
+        for (const result of inspected) {
+          if (result.status !== 'fulfilled') continue;
+          const c = result.value;
+          for (const [containerPort, bindings] of Object.entries(c.hostConfig.portBindings ?? {})) {
+            const [target, protocol = 'tcp'] = containerPort.split('/');
+            for (const b of bindings ?? []) {
+              const hostPort = Number.parseInt(b.hostPort ?? '', 10);
+              if (!hostPort) continue;
+              mappings.push({
+                ...hostAddress(b.hostIp),
+                hostPort,
+                protocol: protocol as PortMapping['protocol'],
+                targetPort: Number.parseInt(target, 10),
+                source: 'container',
+                id: c.id.substring(0, 12),
+                name: c.name.replace(/^\//, ''),
+                state: c.state.status,
+                binding: 'requested',
+              });
+            }
+          }
+        }
+
+        // Services are only listed on swarm managers. Host-mode ports are already
+        // covered by the task containers running on this host.
+        const services = await client.listServices().catch(() => undefined);
+        for (const service of services ?? []) {
+          const ports = service.endpoint?.ports ?? service.spec.endpointSpec?.ports ?? [];
+          for (const p of ports) {
+            if (!p.publishedPort || p.publishMode === 'host') continue;
+            mappings.push({
+              hostIp: '0.0.0.0',
+              allInterfaces: true,
+              hostPort: p.publishedPort,
+              protocol: p.protocol ?? 'tcp',
+              targetPort: p.targetPort,
+              source: 'service',
+              id: service.id.substring(0, 12),
+              name: service.spec.name,
+              state: 'service',
+              binding: 'ingress',
+            });
+          }
+        }
+
+        const items = findPortConflicts(dedupeMappings(mappings))
+          .filter((m) => port === undefined || m.hostPort === port)
+          .sort((a, b) => a.hostPort - b.hostPort || a.protocol.localeCompare(b.protocol));
+
+        const allInterfaces = [
+          ...new Set(items.filter((m) => m.allInterfaces && m.source === 'container').map((m) => m.name)),
+        ];
+        const conflicts = items
+          .filter((m) => m.conflictsWith)
+          .map((m) => `${m.hostPort}/${m.protocol}: ${m.name} conflicts with ${m.conflictsWith?.join(', ')}`);
+
+        return formatResponse(
+          {
+            items,
+            count: items.length,
+            hasMore: false,
+            swarm: services !== undefined,
+            allInterfaces,
+            conflicts,
+          },
+          format,
+          'ports'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Network Topology
+  // ===========================================================================
+  server.tool(
+    'docker_network_topology',
+    `Show which running containers and swarm services are attached to which networks.
+
+Containers can reach each other directly only through a network they are both
+attached to, by IP address or by name/alias on user-defined networks. Internal
+networks have no outside access. Services are reached through their virtual IP
+(VIP) on each of their networks.
+
+Args:
+  - network: Only show this network (name or ID)
+  - container: Only show the networks this container is attached to (name or ID)
+  - includeServices: Include swarm services and their VIPs (default: true)
+  - format: 'json' (nodes, edges and adjacency list), 'mermaid' or 'dot' (Graphviz)
+
+Returns:
+  A graph of networks (driver, subnets, internal), containers (state, published ports)
+  and services, with edges carrying the IP addresses, aliases and VIPs of each
+  attachment, and dotted edges from services to their task containers.`,
+    {
+      network: z.string().optional().describe('Only show this network'),
+      container: z.string().optional().describe('Only show networks of this container'),
+      includeServices: z.boolean().default(true).describe('Include swarm services'),
+      format: z.enum(['json', 'mermaid', 'dot']).default('json').describe('Output format'),
+    },
+    async ({ network, container, includeServices, format }) => {
+      try {
+        const [networkList, containers, services] = await Promise.all([
+          client.listNetworks(),
+          client.listContainers(false),
+          // Services are only listed on swarm managers
+          includeServices ? client.listServices().catch(() => undefined) : undefined,
+        ]);
+
+        // The network list does not include attached containers, and the container
+        // list does not include aliases
+        const [networkResults, containerResults] = await Promise.all([
+          mapWithConcurrency(networkList, 5, (n) => client.inspectNetwork(n.id)),
+          mapWithConcurrency(containers, 5, (c) => client.inspectContainer(c.id)),
+        ]);
+        let networks = networkResults.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+        const endpointsById = new Map(
+          containerResults.flatMap((r) =>
+            r.status === 'fulfilled' ? [[r.value.id, r.value.networkSettings.networks] as const] : []
+          )
+        );
+        const containersById = new Map(containers.map((c) => [c.id, c]));
+
+        if (network) {
+          networks = networks.filter((n) => n.name === network || n.id.startsWith(network));
+          if (networks.length === 0) throw new NotFoundError('Network', network);
+        }
+        if (container) {
+          const target = containers.find(
+            (c) => containerName(c) === container.replace(/^\//, '') || c.id.startsWith(container)
+          );
+          if (!target) throw new NotFoundError('Running container', container);
+          networks = networks.filter((n) => target.id in n.containers);
+        }
+
+        const nodes = new Map<string, TopologyNode>();
+        const edges: TopologyEdge[] = [];
+        for (const n of networks) {
+          const networkId = `network:${n.name}`;
+          nodes.set(networkId, {
+            id: networkId,
+            type: 'network',
+            name: n.name,
+            driver: n.driver,
+            subnets: (n.ipam?.config ?? []).flatMap((c) => (c.subnet ? [c.subnet] : [])),
+            internal: n.internal,
+          });
+
+          // Load balancer and ingress sandbox endpoints are not containers
+          for (const [id, member] of Object.entries(n.containers)) {
+            const c = containersById.get(id);
+            if (!c) continue;
+            const name = containerName(c);
+            const nodeId = `container:${name}`;
+            nodes.set(nodeId, containerNode(nodeId, name, c));
+            const aliases = (endpointsById.get(id)?.[n.name]?.aliases ?? []).filter(
+              (a) => a !== name && !id.startsWith(a)
+            );
+            edges.push({
+              from: nodeId,
+              to: networkId,
+              kind: 'attachment',
+              ipv4Address: member.ipv4Address || undefined,
+              ipv6Address: member.ipv6Address || undefined,
+              aliases: aliases.length > 0 ? aliases : undefined,
+            });
+          }
+        }
+
+        for (const service of services ?? []) {
+          const serviceId = `service:${service.spec.name}`;
+          const attachments = (service.endpoint?.virtualIPs ?? []).flatMap((vip) => {
+            const n = networks.find((net) => net.id === vip.networkId);
+            return n ? [{ network: `network:${n.name}`, vip: vip.addr }] : [];
+          });
+          if (attachments.length === 0) continue;
+
+          nodes.set(serviceId, {
+            id: serviceId,
+            type: 'service',
+            name: service.spec.name,
+            ports: (service.endpoint?.ports ?? [])
+              .filter((p) => p.publishedPort)
+              .map((p) => `*:${p.publishedPort}->${p.targetPort}/${p.protocol ?? 'tcp'}`),
+          });
+          for (const attachment of attachments) {
+            edges.push({ from: serviceId, to: attachment.network, kind: 'attachment', vip: attachment.vip });
+          }
+          for (const c of containers) {
+            const nodeId = `container:${containerName(c)}`;
+            if (c.labels['com.docker.swarm.service.name'] === service.spec.name && nodes.has(nodeId)) {
+              edges.push({ from: serviceId, to: nodeId, kind: 'task' });
+            }
+          }
+        }
+
+        // Networks without attachments are only shown when asked for by name
+        const attached = new Set(edges.map((e) => e.to));
+        const topology: NetworkTopology = {
+          nodes: [...nodes.values()].filter(
+            (node) => node.type !== 'network' || network !== undefined || attached.has(node.id)
+          ),
+          edges,
+        };
+
+        let text: string;
+        if (format === 'mermaid') text = toMermaid(topology);
+        else if (format === 'dot') text = toDot(topology);
+        else text = JSON.stringify({ ...topology, adjacency: toAdjacencyList(topology) }, null, 2);
+        return { content: [{ type: 'text', text }] };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Probe Connectivity
+  // ===========================================================================
+  server.tool(
+    'docker_probe_connectivity',
+    `Check whether a container can reach another container, service or host.
+
+Runs a DNS lookup, a TCP connect and optionally an HTTP GET from inside the source
+container (through exec). When the source is not running or its image lacks a shell
+or the needed tools, the probe runs in a short-lived helper container attached to
+the same networks instead.
+
+Args:
+  - source: Source container ID or name
+  - target: Target container, service name, "host:port" or an http(s) URL
+  - port: Target port (required unless the target includes one, or is a container
+    exposing a single port)
+  - http: Send an HTTP GET after connecting (implied by URL targets)
+  - path: HTTP path (default: "/")
+  - timeout: Seconds to wait for each step (default: 5)
+  - helper: When to use the helper container: 'auto' (default), 'always' or 'never'
+  - helperImage: Helper image (default: "busybox:stable")
+
+Returns:
+  Step-by-step results (resolution, shared networks, TCP handshake, HTTP status)
+  with the addresses and tools used, and whether the target was reachable.`,
+    {
+      source: z.string().describe('Source container ID or name'),
+      target: z.string().describe('Target container, service, host:port or URL'),
+      port: z.number().int().min(1).max(65535).optional().describe('Target port'),
+      http: z.boolean().default(false).describe('Send an HTTP GET'),
+      path: z.string().default('/').describe('HTTP path'),
+      timeout: z.number().int().min(1).max(30).default(5).describe('Seconds per step'),
+      helper: z.enum(['auto', 'always', 'never']).default('auto').describe('When to use a helper'),
+      helperImage: z.string().default('busybox:stable').describe('Helper image'),
+    },
+    async (args) => {
+      try {
+        const source = await client.inspectContainer(args.source);
+        const sourceName = source.name.replace(/^\//, '');
+        const target = await resolveProbeTarget(client, args);
+
+        const shared = sharedNetworksStep(source, target);
+        const fallback = shared.networks?.find((n) => n.targetAddress)?.targetAddress;
+
+        const options: ProbeOptions = {
+          host: target.host,
+          port: target.port,
+          scheme: target.scheme,
+          path: target.path ?? args.path,
+          timeout: args.timeout,
+          resolve: !parseIp(target.host),
+          http: args.http || target.url !== undefined,
+          fallback,
+        };
+        const command = probeCommand(options);
+
+        let output: ProbeOutput | undefined;
+        let helperReason: string | undefined;
+        if (args.helper === 'always') {
+          helperReason = 'Requested';
+        } else if (!source.state.running) {
+          helperReason = `${sourceName} is not running`;
+        } else {
+          output = parseProbeOutput(await execProbe(client, source.id, command, args.timeout), options);
+          if (!output.tools) {
+            helperReason = `${sourceName} has no shell`;
+          } else if (output.missing.length > 0) {
+            helperReason = `${sourceName} has no tool for: ${output.missing.join(', ')}`;
+          }
+        }
+        if (helperReason && args.helper === 'never') {
+          if (!output) {
+            throw new ValidationError(`Cannot probe from ${sourceName}: ${helperReason}`, {
+              helper: ['Use helper "auto" to probe from a helper container'],
+            });
+          }
+          helperReason = undefined;
+        }
+        const ranIn = helperReason ? 'helper' : 'source';
+        if (helperReason) {
+          const text = await helperProbe(client, source, args.helperImage, command, args.timeout);
+          output = parseProbeOutput(text, options);
+        }
+
+        const steps = probeSteps(output, options);
+        steps.splice(1, 0, shared);
+
+        const result: ConnectivityProbe = {
+          source: sourceName,
+          target: {
+            input: args.target,
+            kind: target.kind,
+            host: target.host,
+            port: target.port,
+            url: target.url,
+          },
+          ranIn,
+          helperImage: ranIn === 'helper' ? args.helperImage : undefined,
+          helperReason,
+          reachable: output?.tcp?.status === 'ok',
+          steps,
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * Topology node for a container, with its published ports
+ */
+function containerNode(id: string, name: string, c: Container): TopologyNode {
+  const ports = c.ports
+    .filter((p) => p.publicPort)
+    .map((p) => `${hostAddress(p.ip).hostIp}:${p.publicPort}->${p.privatePort}/${p.type}`);
+  return { id, type: 'container', name, state: c.state, image: c.image, ports: [...new Set(ports)] };
+}
+
+/** Container states in which published ports are bound */
+const ACTIVE_STATES = new Set(['running', 'paused', 'restarting']);
+
+/**
+ * Normalize a binding address; an empty address, 0.0.0.0 and :: bind all interfaces
+ */
+function hostAddress(ip?: string): { hostIp: string; allInterfaces: boolean } {
+  const all = !ip || ip === '0.0.0.0' || ip === '::';
+  return { hostIp: all ? '0.0.0.0' : ip, allInterfaces: all };
+}
+
+/**
+ * Drop duplicate rows (Docker lists a binding once for IPv4 and once for IPv6)
+ */
+function dedupeMappings(mappings: PortMapping[]): PortMapping[] {
+  const seen = new Set<string>();
+  return mappings.filter((m) => {
+    const key = `${m.source}:${m.id}:${m.hostIp}:${m.hostPort}/${m.protocol}:${m.targetPort}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Mark mappings whose host port is also claimed by another container or service on an
+ * overlapping address
+ */
+function findPortConflicts(mappings: PortMapping[]): PortMapping[] {
+  return mappings.map((m) => {
+    const others = mappings.filter(
+      (o) =>
+        o.hostPort === m.hostPort &&
+        o.protocol === m.protocol &&
+        `${o.source}:${o.id}` !== `${m.source}:${m.id}` &&
+        (o.allInterfaces || m.allInterfaces || o.hostIp === m.hostIp)
+    );
+    return others.length > 0 ? { ...m, conflictsWith: [...new Set(others.map((o) => o.name))] } : m;
+  });
+}
+
+/**
+ * Check requested IPAM configs against each other and the subnets of existing
+ * networks, and allocate (or only suggest) subnets for the address families that
+ * have none
+ */
+function planIpam(
+  requested: IPAMConfig[],
+  existing: Network[],
+  options: {
+    allocate: boolean;
+    suggest: boolean;
+    enableIPv6: boolean;
+    pool: string;
+    prefixLength: number;
+    ipv6Pool: string;
+  }
+): { config: IPAMConfig[]; allocated: string[]; suggested: string[] } {
+  const used: Array<{ cidr: Cidr; subnet: string; network?: string }> = [];
+  for (const network of existing) {
+    for (const c of network.ipam?.config ?? []) {
+      if (!c.subnet) continue;
+      used.push({ cidr: parseCidr(c.subnet), subnet: c.subnet, network: network.name });
+    }
+  }
+
+  const config: IPAMConfig[] = [];
+  const invalid: string[] = [];
+  const conflicts: Array<{ cidr: Cidr; message: string }> = [];
+  for (const c of requested) {
+    if (!c.subnet) {
+      if (c.gateway || c.ipRange || c.auxAddress) {
+        invalid.push('gateway, ipRange and auxAddresses require a subnet');
+      }
+      continue;
+    }
+    const cidr = parseCidr(c.subnet);
+    const addresses = [
+      ['gateway', c.gateway],
+      ['ipRange', c.ipRange],
+      ...Object.entries(c.auxAddress ?? {}).map(([host, ip]) => [`auxAddresses.${host}`, ip]),
+    ];
+    for (const [field, value] of addresses) {
+      if (value && !cidrContains(cidr, value)) {
+        invalid.push(`${field} ${value} is not within ${c.subnet}`);
+      }
+    }
+    const overlap = used.find((u) => cidrsOverlap(u.cidr, cidr));
+    if (overlap) {
+      const owner = overlap.network ? `network "${overlap.network}"` : 'another requested config';
+      conflicts.push({ cidr, message: `${c.subnet} overlaps ${overlap.subnet} of ${owner}` });
+    }
+    used.push({ cidr, subnet: c.subnet });
+    config.push(c);
+  }
+
+  if (invalid.length > 0) {
+    throw new ValidationError('Invalid IPAM config', { ipamConfigs: invalid });
+  }
+  if (conflicts.length > 0) {
+    const details: Record<string, string[]> = { subnet: conflicts.map((c) => c.message) };
+    const { cidr } = conflicts[0];
+    const pool = cidr.version === 4 ? options.pool : options.ipv6Pool;
+    const prefixLength = Math.max(cidr.prefix, parseCidr(pool).prefix);
+    const suggestion = findFreeSubnet(pool, prefixLength, used.map((u) => u.cidr));
+    if (suggestion) details.suggestion = [suggestion];
+    throw new ValidationError(`Subnet ${conflicts[0].message}`, details);
+  }
+
+  const allocated: string[] = [];
+  const suggested: string[] = [];
+  const allocate = (pool: string, prefixLength: number) => {
+    const subnet = findFreeSubnet(pool, prefixLength, used.map((u) => u.cidr));
+    if (!options.allocate) {
+      if (subnet) suggested.push(subnet);
+      return;
+    }
+    if (!subnet) {
+      throw new ValidationError(`No free /${prefixLength} subnet left in ${pool}`, {
+        pool: ['Use a larger pool or a longer prefix length'],
+      });
+    }
+    config.push({ subnet });
+    allocated.push(subnet);
+  };
+  if (options.allocate || options.suggest) {
+    const versions = new Set(config.map((c) => parseCidr(c.subnet as string).version));
+    if (!versions.has(4)) allocate(options.pool, options.prefixLength);
+    if (options.enableIPv6 && !versions.has(6)) allocate(options.ipv6Pool, 64);
+  }
+
+  return { config, allocated, suggested };
+}
+
+/**
+ * Target of a connectivity probe, with the networks it is attached to when it is
+ * a container or service
+ */
+interface ProbeTarget {
+  kind: 'container' | 'service' | 'host';
+  host: string;
+  port: number;
+  scheme: 'http' | 'https';
+  path?: string;
+  url?: string;
+  networks?: Array<{ id: string; name: string; address?: string }>;
+}
+
+/**
+ * Parse a probe target (name, "host:port" or URL) and look it up as a container,
+ * then as a service
+ */
+async function resolveProbeTarget(
+  client: DockerClient,
+  args: { target: string; port?: number }
+): Promise<ProbeTarget> {
+  let host = args.target;
+  let port = args.port;
+  let scheme: ProbeTarget['scheme'] = 'http';
+  let path: string | undefined;
+  let url: string | undefined;
+
+  const hostPort = /^\[([^\]]+)\]:(\d+)$/.exec(host) ?? /^([^:/]+):(\d+)$/.exec(host);
+  if (/^https?:\/\//.test(host)) {
+    const parsed = new URL(host);
+    scheme = parsed.protocol === 'https:' ? 'https' : 'http';
+    url = host;
+    host = parsed.hostname.replace(/^\[|\]$/g, '');
+    port = Number(parsed.port) || port || (scheme === 'https' ? 443 : 80);
+    path = `${parsed.pathname}${parsed.search}`;
+  } else if (hostPort) {
+    host = hostPort[1];
+    port = port ?? Number(hostPort[2]);
+  }
+
+  let target: Omit<ProbeTarget, 'port' | 'scheme'> = { kind: 'host', host };
+  if (!parseIp(host)) {
+    const container = await client.inspectContainer(host).catch((error) => {
+      if (error instanceof NotFoundError) return undefined;
+      throw error;
+    });
+    // Services can only be inspected on swarm managers
+    const service = container
+      ? undefined
+      : await client.inspectService(host).catch(() => undefined);
+
+    if (container) {
+      target = {
+        kind: 'container',
+        host: container.name.replace(/^\//, ''),
+        networks: Object.entries(container.networkSettings.networks).map(([name, endpoint]) => ({
+          id: endpoint.networkId,
+          name,
+          address: endpoint.ipAddress || undefined,
+        })),
+      };
+      const exposed = Object.keys(container.config.exposedPorts ?? {}).filter((p) =>
+        p.endsWith('/tcp')
+      );
+      if (port === undefined && exposed.length === 1) port = Number.parseInt(exposed[0], 10);
+    } else if (service) {
+      target = {
+        kind: 'service',
+        host: service.spec.name,
+        networks: await Promise.all(
+          (service.endpoint?.virtualIPs ?? []).map(async (vip) => {
+            const network = await client.inspectNetwork(vip.networkId).catch(() => undefined);
+            const name = network?.name ?? vip.networkId;
+            return { id: vip.networkId, name, address: vip.addr.split('/')[0] };
+          })
+        ),
+      };
+    }
+  }
+
+  if (port === undefined) {
+    throw new ValidationError(`A port is required to probe ${args.target}`, {
+      port: ['Pass port, or include it in target ("host:port")'],
+    });
+  }
+  return { ...target, port, scheme, path, url };
+}
+
+/**
+ * Networks the probe source and target are both attached to. Only known for
+ * container and service targets.
+ */
+function sharedNetworksStep(source: ContainerInspect, target: ProbeTarget): ProbeStep {
+  if (!target.networks) {
+    const detail = 'Target is not a container or service';
+    return { step: 'shared-networks', status: 'skipped', detail };
+  }
+
+  const sourceNetworks = Object.entries(source.networkSettings.networks);
+  const networks = sourceNetworks.flatMap(([name, endpoint]) => {
+    const other = target.networks?.find((n) => n.name === name || n.id === endpoint.networkId);
+    if (!other) return [];
+    return [{ name, sourceAddress: endpoint.ipAddress || undefined, targetAddress: other.address }];
+  });
+  const list = (names: string[]) => (names.length > 0 ? names.join(', ') : 'no networks');
+
+  if (networks.length === 0) {
+    const sourceName = source.name.replace(/^\//, '');
+    return {
+      step: 'shared-networks',
+      status: 'failed',
+      detail:
+        `No shared network: ${sourceName} is on ${list(sourceNetworks.map(([name]) => name))}, ` +
+        `${target.host} is on ${list(target.networks.map((n) => n.name))}`,
+      networks,
+    };
+  }
+  return {
+    step: 'shared-networks',
+    status: 'ok',
+    detail: networks.every((n) => n.name === 'bridge')
+      ? 'Only the default bridge network is shared; it has no DNS for container names'
+      : `Shared networks: ${list(networks.map((n) => n.name))}`,
+    networks,
+  };
+}
+
+/**
+ * Resolution, TCP and HTTP steps of a probe run, with skipped steps for those that
+ * did not run
+ */
+function probeSteps(output: ProbeOutput | undefined, options: ProbeOptions): ProbeStep[] {
+  const skipped = (step: 'resolution' | 'tcp' | 'http', reason?: string): ProbeStep => ({
+    step,
+    status: 'skipped',
+    detail:
+      reason ??
+      (!output?.tools
+        ? 'The probe did not run: the container has no shell'
+        : output.missing.includes(step)
+          ? 'No tool for this step in the container'
+          : 'Not run'),
+  });
+
+  const steps = [
+    output?.resolution ??
+      skipped('resolution', options.resolve ? undefined : `${options.host} is an IP address`),
+    output?.tcp ?? skipped('tcp'),
+  ];
+  if (options.http) steps.push(output?.http ?? skipped('http'));
+  return steps;
+}
+
+/**
+ * Run the probe command in a running container. Output is read with a TTY so that
+ * it is not multiplexed.
+ */
+async function execProbe(
+  client: DockerClient,
+  containerId: string,
+  command: string[],
+  timeout: number
+): Promise<string> {
+  const { id } = await client.createExec(containerId, {
+    cmd: command,
+    attachStdout: true,
+    attachStderr: true,
+    tty: true,
+  });
+  // Each of the (up to) three steps is limited to timeout seconds by the script
+  const deadline = timeout * 3 + 5;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), deadline * 1000);
+  try {
+    return await client.startExec(id, false, true, controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new DockerApiError(`Probe did not finish within ${deadline}s`, 504, 'TIMEOUT', true);
+    }
+    // Images without a shell fail to start the exec; the probe then reports no tools
+    const noShell = /executable file not found|no such file/i;
+    if (error instanceof DockerApiError && noShell.test(error.message)) return '';
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run the probe command in a helper container on the networks of the source
+ * container (or in its network namespace), and remove the helper afterwards
+ */
+async function helperProbe(
+  client: DockerClient,
+  source: ContainerInspect,
+  image: string,
+  command: string[],
+  timeout: number
+): Promise<string> {
+  try {
+    await client.inspectImage(image);
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) throw error;
+    const { name, tag } = parseImageReference(image);
+    await client.pullImage(name, tag);
+  }
+
+  const mode = source.hostConfig.networkMode ?? '';
+  const networks = Object.keys(source.networkSettings.networks);
+  const sharesNamespace = mode === 'host' || mode === 'none' || mode.startsWith('container:');
+  const { id } = await client.createContainer({
+    image,
+    // The probe runs through exec; the container only has to outlive it
+    cmd: ['sleep', String(timeout * 4 + 30)],
+    hostConfig: { networkMode: sharesNamespace ? mode : networks[0] },
+    networkingConfig: sharesNamespace
+      ? undefined
+      : { endpointsConfig: Object.fromEntries(networks.map((n) => [n, {}])) },
+  });
+  try {
+    await client.startContainer(id);
+    return await execProbe(client, id, command, timeout);
+  } finally {
+    await client.removeContainer(id, true).catch(() => undefined);
+  }
 }
@@ -0,0 +1,225 @@
+/**
+ * Registry Tools
+ *
+ * MCP tools for private OCI / Docker registries (Distribution API v2), using the
+ * registry from the X-Docker-Registry headers.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { DockerClient } from '../client.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+
+const digestSchema = z
+  .string()
+  .regex(/^sha256:[a-f0-9]{64}$|^sha512:[a-f0-9]{128}$/, 'Expected a digest (sha256:...)');
+
+/**
+ * Register all registry tools
+ */
+export function registerRegistryTools(server: McpServer, client: DockerClient): void {
+  // ===========================================================================
+  // List Repositories
+  // ===========================================================================
+  server.tool(
+    'docker_registry_catalog',
+    `List the repositories in the registry.
+
+Not all registries allow listing repositories (Docker Hub and most hosted registries
+do not).
+
+Args:
+  - limit: Repositories per page (default: 100)
+  - cursor: nextCursor of the previous page
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Repository names, and a cursor for the next page.`,
+    {
+      limit: z.number().int().min(1).max(1000).default(100).describe('Repositories per page'),
+      cursor: z.string().optional().describe('Cursor from a previous response'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ limit, cursor, format }) => {
+      try {
+        const result = await client.registryListRepositories(limit, cursor);
+        return formatResponse(result, format, 'repositories');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // List Tags
+  // ===========================================================================
+  server.tool(
+    'docker_registry_list_tags',
+    `List the tags of a repository in the registry.
+
+Args:
+  - repository: Repository name (e.g., "team/app")
+  - limit: Tags per page (default: 100)
+  - cursor: nextCursor of the previous page
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Tag names, and a cursor for the next page.`,
+    {
+      repository: z.string().describe('Repository name'),
+      limit: z.number().int().min(1).max(1000).default(100).describe('Tags per page'),
+      cursor: z.string().optional().describe('Cursor from a previous response'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ repository, limit, cursor, format }) => {
+      try {
+        const result = await client.registryListTags(repository, limit, cursor);
+        return formatResponse(result, format, 'tags');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Manifest
+  // ===========================================================================
+  server.tool(
+    'docker_registry_get_manifest',
+    `Get the manifest of a tag or digest.
+
+For multi-arch images this is the manifest list (index) with one manifest per
+platform; get a platform manifest by passing its digest as the reference.
+
+Args:
+  - repository: Repository name
+  - reference: Tag or digest
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Digest, media type and kind ('index' or 'image'); the platform manifests of an
+  index, or the config and layers of an image manifest with the total size.`,
+    {
+      repository: z.string().describe('Repository name'),
+      reference: z.string().describe('Tag or digest'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ repository, reference, format }) => {
+      try {
+        const manifest = await client.registryGetManifest(repository, reference);
+        return formatResponse(manifest, format, 'manifest');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Image Config
+  // ===========================================================================
+  server.tool(
+    'docker_registry_get_image_config',
+    `Get the image configuration of a tag or digest without pulling the image.
+
+For multi-arch images the manifest for the requested platform is used.
+
+Args:
+  - repository: Repository name
+  - reference: Tag or digest
+  - platform: Platform to use for multi-arch images (default: "linux/amd64")
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Platform, creation time, environment, entrypoint, command, user, working directory,
+  exposed ports, labels, layer diff IDs and build history.`,
+    {
+      repository: z.string().describe('Repository name'),
+      reference: z.string().describe('Tag or digest'),
+      platform: z.string().default('linux/amd64').describe('Platform (os/arch[/variant])'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ repository, reference, platform, format }) => {
+      try {
+        const config = await client.registryGetImageConfig(repository, reference, platform);
+        return formatResponse(config, format, 'image_config');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Delete Manifest
+  // ===========================================================================
+  server.tool(
+    'docker_registry_delete_manifest',
+    `Delete a manifest from the registry by digest.
+
+All tags pointing at the manifest are removed with it. Layers are only freed by the
+registry's garbage collection. The registry must allow deletes.
+
+Args:
+  - repository: Repository name
+  - digest: Manifest digest (resolve a tag with docker_registry_get_manifest)
+
+Returns:
+  Confirmation of deletion.`,
+    {
+      repository: z.string().describe('Repository name'),
+      digest: digestSchema.describe('Manifest digest'),
+    },
+    async ({ repository, digest }) => {
+      try {
+        await client.registryDeleteManifest(repository, digest);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Manifest ${digest} deleted from ${repository}`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Check Blob
+  // ===========================================================================
+  server.tool(
+    'docker_registry_blob_exists',
+    `Check whether a blob (layer or config) exists in a repository.
+
+Args:
+  - repository: Repository name
+  - digest: Blob digest
+
+Returns:
+  Whether the blob exists, and its size.`,
+    {
+      repository: z.string().describe('Repository name'),
+      digest: digestSchema.describe('Blob digest'),
+    },
+    async ({ repository, digest }) => {
+      try {
+        const result = await client.registryBlobExists(repository, digest);
+        return {
+          content: [
+            { type: 'text', text: JSON.stringify({ repository, digest, ...result }, null, 2) },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -409,6 +409,9 @@ Args:
   - labels: Service labels
   - publishedPorts: Ports to publish (array of {targetPort, publishedPort, protocol})
 
+Registry credentials for private images are taken from the X-Docker-Registry* or
+Docker Hub headers and passed on to the swarm nodes.
+
 Returns:
   Created service ID.`,
     {
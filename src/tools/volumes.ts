@@ -7,12 +7,30 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DockerClient } from '../client.js';
+import type { VolumeBackup, VolumeUsage } from '../types/entities.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { containerName } from '../utils/containers.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { artifactKey, requireArtifactBucket, sha256Stream, uploadStream } from '../utils/r2.js';
+import { parseImageReference } from '../utils/registry.js';
+import { readBodyLimited } from '../utils/streams.js';
+import { parseTar } from '../utils/tar.js';
+
+/** Where helper containers mount the volume being backed up or restored */
+const VOLUME_PATH = '/volume';
+
+/** Label the daemon sets on volumes created without a name */
+const ANONYMOUS_VOLUME_LABEL = 'com.docker.volume.anonymous';
 
 /**
  * Register all volume-related tools
  */
-export function registerVolumeTools(server: McpServer, client: DockerClient): void {
+export function registerVolumeTools(
+  server: McpServer,
+  client: DockerClient,
+  artifacts?: R2Bucket
+): void {
   // ===========================================================================
   // List Volumes
   // ===========================================================================
@@ -49,6 +67,102 @@ Returns:
     }
   );
 
+  // ===========================================================================
+  // Volume Usage
+  // ===========================================================================
+  server.tool(
+    'docker_volume_usage',
+    `Report the size of each volume and the containers using it.
+
+Joins the volume sizes and reference counts from the daemon's disk usage data with
+the mounts of all containers, running or stopped. Anonymous volumes that no container mounts are
+flagged as prunable: docker volume prune removes them, and their data is lost.
+
+Args:
+  - orphanedOnly: Only return volumes that no container mounts (default: false)
+  - sort: Sort by 'size' (default, largest first), 'name' or 'created' (newest first)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Volumes with driver, size, reference count, creation date, labels, the containers
+  mounting them (with state, mount path and read-write flag), and orphaned/prunable
+  flags, plus totals for all, orphaned and prunable volumes.`,
+    {
+      orphanedOnly: z.boolean().default(false).describe('Only return unmounted volumes'),
+      sort: z.enum(['size', 'name', 'created']).default('size').describe('Sort order'),
+      format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
+    },
+    async ({ orphanedOnly, sort, format }) => {
+      try {
+        // The disk usage data lists all containers with their mounts, so one call is enough
+        const usage = await client.getDataUsage();
+        const users = new Map<string, VolumeUsage['containers']>();
+        for (const container of usage.containers ?? []) {
+          for (const mount of container.mounts ?? []) {
+            if (mount.type !== 'volume' || !mount.name) continue;
+            const list = users.get(mount.name) ?? [];
+            list.push({
+              id: container.id.substring(0, 12),
+              name: containerName(container),
+              state: container.state,
+              destination: mount.destination,
+              rw: mount.rw,
+            });
+            users.set(mount.name, list);
+          }
+        }
+
+        const volumes: VolumeUsage[] = (usage.volumes ?? []).map((v) => {
+          const containers = users.get(v.name) ?? [];
+          const anonymous =
+            v.labels?.[ANONYMOUS_VOLUME_LABEL] !== undefined || /^[0-9a-f]{64}$/.test(v.name);
+          return {
+            name: v.name,
+            driver: v.driver,
+            // Drivers that cannot compute sizes report -1
+            size: v.usageData && v.usageData.size >= 0 ? v.usageData.size : undefined,
+            refCount: v.usageData && v.usageData.refCount >= 0 ? v.usageData.refCount : undefined,
+            createdAt: v.createdAt,
+            labels: v.labels ?? {},
+            anonymous,
+            containers,
+            orphaned: containers.length === 0,
+            prunable: anonymous && containers.length === 0,
+          };
+        });
+
+        const compare: Record<typeof sort, (a: VolumeUsage, b: VolumeUsage) => number> = {
+          size: (a, b) => (b.size ?? -1) - (a.size ?? -1),
+          name: (a, b) => a.name.localeCompare(b.name),
+          created: (a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''),
+        };
+        const items = volumes.filter((v) => !orphanedOnly || v.orphaned).sort(compare[sort]);
+
+        const total = (list: VolumeUsage[]) => ({
+          count: list.length,
+          size: list.reduce((sum, v) => sum + (v.size ?? 0), 0),
+        });
+        return formatResponse(
+          {
+            items,
+            count: items.length,
+            total: volumes.length,
+            hasMore: false,
+            summary: {
+              all: total(volumes),
+              orphaned: total(volumes.filter((v) => v.orphaned)),
+              prunable: total(volumes.filter((v) => v.prunable)),
+            },
+          },
+          format,
+          'volume_usage'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   // ===========================================================================
   // Inspect Volume
   // ===========================================================================
@@ -179,4 +293,342 @@ Returns:
       }
     }
   );
+
+  // ===========================================================================
+  // Backup Volume
+  // ===========================================================================
+  server.tool(
+    'docker_backup_volume',
+    `Back up a volume as a tarball to R2 storage.
+
+The volume is mounted read-only into a helper container that is never started, and
+its contents are streamed through the archive API to the DOCKER_ARTIFACTS bucket
+without being buffered in full. Stop containers writing to the volume first for a
+consistent backup. Requires the DOCKER_ARTIFACTS R2 binding.
+
+Args:
+  - volume: Volume name
+  - key: Object key (default: volumes/<volume>/<timestamp>.tar[.gz])
+  - compress: Compress the tarball with gzip (default: true)
+  - checksum: Store a SHA-256 checksum as <key>.sha256 (default: true)
+  - helperImage: Image of the helper container (default: "busybox:stable")
+
+Returns:
+  Object key, size in bytes, ETag, compression and checksum.`,
+    {
+      volume: z.string().describe('Volume name'),
+      key: z.string().optional().describe('R2 object key'),
+      compress: z.boolean().default(true).describe('Compress with gzip'),
+      checksum: z.boolean().default(true).describe('Store a SHA-256 checksum'),
+      helperImage: z.string().default('busybox:stable').describe('Helper image'),
+    },
+    async ({ volume, key, compress, checksum, helperImage }) => {
+      try {
+        const bucket = requireArtifactBucket(artifacts);
+        const info = await client.inspectVolume(volume);
+        const objectKey = key ?? artifactKey('volumes', volume, compress ? 'tar.gz' : 'tar');
+
+        const helperId = await createVolumeHelper(client, helperImage, volume, true);
+        try {
+          let stream = await client.getContainerArchive(helperId, VOLUME_PATH);
+          if (compress) stream = stream.pipeThrough(new CompressionStream('gzip'));
+          const hash = checksum ? sha256Stream() : undefined;
+          if (hash) stream = stream.pipeThrough(hash.stream);
+
+          const result = await uploadStream(bucket, objectKey, stream, {
+            contentType: compress ? 'application/gzip' : 'application/x-tar',
+            customMetadata: {
+              volume,
+              driver: info.driver,
+              compression: compress ? 'gzip' : 'none',
+              labels: JSON.stringify(info.labels ?? {}),
+            },
+          });
+          const sha256 = await hash?.digest;
+          if (sha256) {
+            // Same format as sha256sum, so the file can be checked outside of Docker
+            const line = `${sha256.replace(/^sha256:/, '')}  ${objectKey.split('/').pop()}\n`;
+            await bucket.put(`${objectKey}.sha256`, line, {
+              httpMetadata: { contentType: 'text/plain' },
+            });
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  message: `Volume ${volume} backed up to ${result.key}`,
+                  key: result.key,
+                  size: result.size,
+                  etag: result.etag,
+                  compression: compress ? 'gzip' : 'none',
+                  sha256,
+                }, null, 2),
+              },
+            ],
+          };
+        } finally {
+          await client.removeContainer(helperId, true).catch(() => undefined);
+        }
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Restore Volume
+  // ===========================================================================
+  server.tool(
+    'docker_restore_volume',
+    `Restore a volume backup from R2 storage into a new or empty volume.
+
+The volume is created when it does not exist (with the labels of the backed-up
+volume); an existing volume must be empty. The backup is checked against its
+.sha256 checksum before anything is written, then streamed through the archive API
+into a helper container that mounts the volume. Requires the DOCKER_ARTIFACTS R2
+binding.
+
+Args:
+  - key: Object key of the backup (see docker_list_volume_backups)
+  - volume: Target volume name (default: the volume the backup was taken from)
+  - verify: Verify the checksum before restoring, when one is stored (default: true)
+  - helperImage: Image of the helper container (default: "busybox:stable")
+
+Returns:
+  Target volume, whether it was created, the size restored and whether the checksum
+  was verified.`,
+    {
+      key: z.string().describe('R2 object key'),
+      volume: z.string().optional().describe('Target volume name'),
+      verify: z.boolean().default(true).describe('Verify the checksum first'),
+      helperImage: z.string().default('busybox:stable').describe('Helper image'),
+    },
+    async ({ key, volume, verify, helperImage }) => {
+      try {
+        const bucket = requireArtifactBucket(artifacts);
+        const head = await bucket.head(key);
+        if (!head) {
+          throw new NotFoundError('Artifact', key);
+        }
+        const metadata = head.customMetadata ?? {};
+        const target = volume ?? metadata.volume;
+        if (!target) {
+          throw new ValidationError(`Backup ${key} does not record its volume`, {
+            volume: ['Pass the name of the volume to restore into'],
+          });
+        }
+
+        let verified = false;
+        if (verify) {
+          const checksum = await bucket.get(`${key}.sha256`);
+          const object = checksum ? await bucket.get(key) : null;
+          if (checksum && object) {
+            const expected = (await checksum.text()).trim().split(/\s+/)[0];
+            const hash = sha256Stream();
+            await object.body.pipeThrough(hash.stream).pipeTo(new WritableStream());
+            const actual = (await hash.digest).replace(/^sha256:/, '');
+            if (actual !== expected) {
+              throw new ValidationError(`Checksum mismatch for ${key}`, {
+                key: [`Expected sha256 ${expected}, got ${actual}`],
+              });
+            }
+            verified = true;
+          }
+        }
+
+        const existing = await client.inspectVolume(target).catch((error) => {
+          if (error instanceof NotFoundError) return undefined;
+          throw error;
+        });
+        if (!existing) {
+          await client.createVolume({ name: target, labels: parseLabels(metadata.labels) });
+        }
+
+        let restored = false;
+        try {
+          const helperId = await createVolumeHelper(client, helperImage, target, false);
+          try {
+            if (existing && !(await isVolumeEmpty(client, helperId))) {
+              throw new ConflictError(`Volume ${target} is not empty`);
+            }
+            const object = await bucket.get(key);
+            if (!object) {
+              throw new NotFoundError('Artifact', key);
+            }
+            // The archive endpoint accepts gzip-compressed tarballs as they are
+            await client.putContainerArchive(helperId, '/', object.body);
+            restored = true;
+          } finally {
+            await client.removeContainer(helperId, true).catch(() => undefined);
+          }
+        } finally {
+          // Do not leave a half-restored volume behind
+          if (!existing && !restored) {
+            await client.removeVolume(target, true).catch(() => undefined);
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                message: `Backup ${key} restored into volume ${target}`,
+                key,
+                volume: target,
+                created: !existing,
+                size: head.size,
+                verified,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // List Volume Backups
+  // ===========================================================================
+  server.tool(
+    'docker_list_volume_backups',
+    `List the volume backups stored in R2 storage by docker_backup_volume.
+
+Only backups stored under the default volumes/<volume>/ prefix are listed. Requires
+the DOCKER_ARTIFACTS R2 binding.
+
+Args:
+  - volume: Only list backups of this volume
+  - limit: Backups per page (default: 100)
+  - cursor: nextCursor of the previous page
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Backups with their key, volume, size, creation time, compression and whether a
+  checksum is stored, and a cursor for the next page.`,
+    {
+      volume: z.string().optional().describe('Volume name'),
+      limit: z.number().int().min(1).max(1000).default(100).describe('Backups per page'),
+      cursor: z.string().optional().describe('Cursor from a previous response'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ volume, limit, cursor, format }) => {
+      try {
+        const bucket = requireArtifactBucket(artifacts);
+        const prefix = volume ? `volumes/${volume}/` : 'volumes/';
+
+        // Checksum sidecars share the prefix, so keep listing until the page is full of
+        // backups. The cursor is the key of the last backup returned.
+        const objects: R2Object[] = [];
+        let startAfter = cursor;
+        let truncated = true;
+        let overflow = false;
+        while (truncated && !overflow && objects.length < limit) {
+          const listing = await bucket.list({ prefix, startAfter });
+          const backups = listing.objects.filter((o) => !o.key.endsWith('.sha256'));
+          const room = limit - objects.length;
+          objects.push(...backups.slice(0, room));
+          overflow = backups.length > room;
+          truncated = listing.truncated;
+          startAfter = listing.objects[listing.objects.length - 1]?.key;
+        }
+        const hasMore = overflow || (truncated && objects.length === limit);
+
+        const sidecars = await mapWithConcurrency(objects, 8, (o) =>
+          bucket.head(`${o.key}.sha256`)
+        );
+        // Volume and compression are read from the key, as listings omit custom metadata
+        const items: VolumeBackup[] = objects.map((o, i) => {
+          const sidecar = sidecars[i];
+          return {
+            key: o.key,
+            volume: o.key.split('/')[1],
+            size: o.size,
+            created: o.uploaded.toISOString(),
+            compression: o.key.endsWith('.gz') ? 'gzip' : 'none',
+            checksum: sidecar.status === 'fulfilled' && sidecar.value !== null,
+          };
+        });
+
+        return formatResponse(
+          {
+            items,
+            count: items.length,
+            hasMore,
+            nextCursor: hasMore ? objects[objects.length - 1]?.key : undefined,
+          },
+          format,
+          'volume_backups'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * Create (but do not start) a helper container with the volume mounted at
+ * VOLUME_PATH, pulling the helper image when it is missing. The archive API works on
+ * containers that are not running.
+ */
+async function createVolumeHelper(
+  client: DockerClient,
+  image: string,
+  volume: string,
+  readOnly: boolean
+): Promise<string> {
+  try {
+    await client.inspectImage(image);
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) throw error;
+    const { name, tag } = parseImageReference(image);
+    await client.pullImage(name, tag);
+  }
+
+  const { id } = await client.createContainer({
+    image,
+    cmd: ['true'],
+    networkDisabled: true,
+    hostConfig: {
+      // noCopy keeps the helper image's files out of a new, empty volume
+      mounts: [
+        {
+          type: 'volume',
+          source: volume,
+          target: VOLUME_PATH,
+          readOnly,
+          volumeOptions: { noCopy: true },
+        },
+      ],
+    },
+  });
+  return id;
+}
+
+/**
+ * Whether the volume mounted in a helper container has no files. Only the start of
+ * the archive is read: the first entry is the mount point itself, and the archive of
+ * an empty volume ends right after it. A cut-off entry means there is more.
+ */
+async function isVolumeEmpty(client: DockerClient, helperId: string): Promise<boolean> {
+  const archive = await client.getContainerArchive(helperId, VOLUME_PATH);
+  const { bytes } = await readBodyLimited(archive, 16 * 1024);
+  const { entries, truncated } = parseTar(bytes);
+  return !truncated && entries.length <= 1;
+}
+
+function parseLabels(labels?: string): Record<string, string> | undefined {
+  if (!labels) return undefined;
+  try {
+    return JSON.parse(labels) as Record<string, string>;
+  } catch {
+    return undefined;
+  }
 }
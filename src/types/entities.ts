@@ -82,6 +82,21 @@ export interface ContainerNetworkSettings {
   networks: Record<string, EndpointSettings>;
 }
 
+/**
+ * Endpoint configuration supplied when attaching a container to a network
+ */
+export interface EndpointConfig {
+  ipamConfig?: {
+    ipv4Address?: string;
+    ipv6Address?: string;
+    linkLocalIPs?: string[];
+  };
+  links?: string[];
+  aliases?: string[];
+  macAddress?: string;
+  driverOpts?: Record<string, string>;
+}
+
 export interface EndpointSettings {
   ipamConfig?: {
     ipv4Address?: string;
@@ -101,11 +116,14 @@ export interface EndpointSettings {
   macAddress: string;
 }
 
-export interface ContainerInspect extends Container {
-  created: number;
+export interface ContainerInspect {
+  id: string;
+  created: string;
   path: string;
   args: string[];
-  resolveConfPath: string;
+  state: ContainerStateDetail;
+  image: string;
+  resolvConfPath: string;
   hostnamePath: string;
   hostsPath: string;
   logPath: string;
@@ -119,7 +137,35 @@ export interface ContainerInspect extends Container {
   execIds?: string[];
   hostConfig: HostConfig;
   graphDriver: GraphDriverData;
+  mounts: Mount[];
   config: ContainerConfig;
+  networkSettings: ContainerInspectNetworkSettings;
+}
+
+export interface ContainerStateDetail {
+  status: ContainerState;
+  running: boolean;
+  paused: boolean;
+  restarting: boolean;
+  oomKilled: boolean;
+  dead: boolean;
+  pid: number;
+  exitCode: number;
+  error: string;
+  startedAt: string;
+  finishedAt: string;
+  health?: ContainerHealth;
+}
+
+export interface ContainerHealth {
+  status: 'none' | 'starting' | 'healthy' | 'unhealthy';
+  failingStreak: number;
+  log?: Array<{ start: string; end: string; exitCode: number; output: string }>;
+}
+
+export interface ContainerInspectNetworkSettings {
+  ports?: Record<string, PortBinding[] | null>;
+  networks: Record<string, EndpointSettings>;
 }
 
 export interface ContainerConfig {
@@ -333,10 +379,29 @@ export interface ContainerCreateInput {
   shell?: string[];
   hostConfig?: HostConfig;
   networkingConfig?: {
-    endpointsConfig?: Record<string, EndpointSettings>;
+    endpointsConfig?: Record<string, EndpointConfig>;
   };
 }
 
+/**
+ * Condition for the container wait endpoint
+ */
+export type ContainerWaitCondition = 'not-running' | 'next-exit' | 'removed';
+
+export interface ContainerCommitInput {
+  /** Repository name for the new image */
+  repo?: string;
+  tag?: string;
+  /** Commit message */
+  comment?: string;
+  /** Author of the image (e.g., "Jane Doe <jane@example.com>") */
+  author?: string;
+  /** Pause the container while committing (default: true) */
+  pause?: boolean;
+  /** Dockerfile instructions to apply (e.g., "ENV DEBUG=1", "CMD [\"app\"]") */
+  changes?: string[];
+}
+
 export interface ContainerUpdateInput {
   cpuShares?: number;
   memory?: number;
@@ -357,6 +422,8 @@ export interface ContainerUpdateInput {
 }
 
 export interface ContainerStats {
+  id?: string;
+  name?: string;
   read: string;
   preread: string;
   pidsStats: { current: number; limit: number };
@@ -406,6 +473,66 @@ export interface NetworkStats {
   txDropped: number;
 }
 
+/**
+ * Resource usage derived from one or more stats samples
+ */
+export interface ContainerStatsSummary {
+  id: string;
+  name: string;
+  /** Time of the last sample */
+  read: string;
+  /** Number of samples the figures are based on */
+  samples: number;
+  /** Seconds between the first and last sample */
+  windowSeconds: number;
+  /** CPU usage, where 100% is one full CPU */
+  cpuPercent: number;
+  onlineCpus: number;
+  /** Memory usage excluding page cache, in bytes */
+  memoryUsage: number;
+  memoryCache: number;
+  memoryLimit: number;
+  memoryPercent: number;
+  /** Cumulative bytes received/sent over all networks */
+  networkRxBytes: number;
+  networkTxBytes: number;
+  /** Bytes per second over the window (null with a single sample) */
+  networkRxRate: number | null;
+  networkTxRate: number | null;
+  /** Cumulative bytes read/written to block devices */
+  blockReadBytes: number;
+  blockWriteBytes: number;
+  blockReadRate: number | null;
+  blockWriteRate: number | null;
+  pids: number;
+}
+
+export type LogStream = 'stdin' | 'stdout' | 'stderr';
+
+export interface LogEntry {
+  stream: LogStream;
+  /** RFC 3339 timestamp (only when timestamps were requested) */
+  timestamp?: string;
+  message: string;
+}
+
+export interface ContainerLogsOptions {
+  /** Number of lines from the end of the logs, or 'all' */
+  tail?: number | 'all';
+  /** Include timestamps */
+  timestamps?: boolean;
+  /** Only logs since this Unix timestamp (seconds) */
+  since?: number;
+  /** Only logs before this Unix timestamp (seconds) */
+  until?: number;
+  /** Include stdout */
+  stdout?: boolean;
+  /** Include stderr */
+  stderr?: boolean;
+  /** Keep the stream open and collect new output for this many seconds */
+  followSeconds?: number;
+}
+
 export interface ContainerProcess {
   titles: string[];
   processes: string[][];
@@ -416,6 +543,26 @@ export interface ContainerChange {
   kind: 0 | 1 | 2; // 0: Modified, 1: Added, 2: Deleted
 }
 
+/**
+ * Stat of a path inside a container (X-Docker-Container-Path-Stat header)
+ */
+export interface ContainerPathStat {
+  name: string;
+  size: number;
+  /** Go os.FileMode bits (type bits plus permissions) */
+  mode: number;
+  mtime: string;
+  /** Resolved target when the path is a symlink */
+  linkTarget: string;
+}
+
+export interface ContainerArchiveOptions {
+  /** Fail if extracting would replace a directory with a non-directory or vice versa */
+  noOverwriteDirNonDir?: boolean;
+  /** Set ownership of extracted files to the container's user */
+  copyUidGid?: boolean;
+}
+
 // =============================================================================
 // Image Types
 // =============================================================================
@@ -470,6 +617,89 @@ export interface ImageHistory {
   comment: string;
 }
 
+/**
+ * An image layer, attributed to the instruction that created it
+ */
+export interface ImageLayer {
+  /** Position in build order, starting at 1 with the first layer of the base image */
+  index: number;
+  instruction: string;
+  size: number;
+  /** Share of the image size */
+  percent: number;
+  created: string;
+}
+
+/**
+ * A layer that likely holds files the image does not need
+ */
+export interface LayerFinding {
+  kind: 'package-cache' | 'removed-later';
+  index: number;
+  instruction: string;
+  /** Size of the layer */
+  size: number;
+  message: string;
+}
+
+/**
+ * Layers of an image ranked by size, with the findings of analyzeLayers
+ */
+export interface ImageLayerAnalysis {
+  image: string;
+  id: string;
+  size: number;
+  /** History entries that added data */
+  layerCount: number;
+  /** History entries that only changed metadata */
+  emptyLayers: number;
+  /** Layers ranked by size */
+  layers: ImageLayer[];
+  findings: LayerFinding[];
+}
+
+export interface ValueChange<T> {
+  from: T;
+  to: T;
+}
+
+export interface MapDiff {
+  added: Record<string, string>;
+  removed: Record<string, string>;
+  changed: Record<string, ValueChange<string>>;
+}
+
+/**
+ * A layer present in only one of two compared images
+ */
+export interface LayerDiffEntry {
+  digest: string;
+  /** Instruction that created the layer, when it can be matched to the history */
+  instruction?: string;
+  size?: number;
+}
+
+export interface ImageComparison {
+  base: { name: string; id: string; created: string; size: number; platform: string };
+  target: { name: string; id: string; created: string; size: number; platform: string };
+  /** Configuration changes; unchanged fields are omitted */
+  config: {
+    env: MapDiff;
+    labels: MapDiff;
+    exposedPorts: { added: string[]; removed: string[] };
+    entrypoint?: ValueChange<string[] | undefined>;
+    cmd?: ValueChange<string[] | undefined>;
+    user?: ValueChange<string | undefined>;
+    workingDir?: ValueChange<string | undefined>;
+  };
+  layers: {
+    shared: number;
+    sharedSize: number;
+    onlyInBase: LayerDiffEntry[];
+    onlyInTarget: LayerDiffEntry[];
+  };
+}
+
 export interface ImageSearchResult {
   description: string;
   isOfficial: boolean;
@@ -505,6 +735,74 @@ export interface ImageBuildInput {
   outputs?: string;
 }
 
+export interface BuildStep {
+  /** Step number, e.g. "2/5" */
+  step: string;
+  /** Dockerfile instruction, e.g. "RUN npm ci" */
+  instruction: string;
+  cached: boolean;
+  /** Last lines of output of the step */
+  output: string[];
+}
+
+export interface BuildError {
+  message: string;
+  code?: number;
+  /** Step that failed, e.g. "3/5 RUN make" */
+  step?: string;
+}
+
+export interface ImageBuildResult {
+  success: boolean;
+  imageId?: string;
+  tags: string[];
+  steps: BuildStep[];
+  warnings: string[];
+  error?: BuildError;
+}
+
+export interface LayerProgress {
+  id: string;
+  /** Last reported status, e.g. "Pull complete" or "Layer already exists" */
+  status: string;
+  /** Layer size, when the layer was transferred */
+  bytes?: number;
+}
+
+export interface ImageTransferResult {
+  image: string;
+  /** Final status, e.g. "Downloaded newer image for nginx:latest" */
+  status?: string;
+  digest?: string;
+  layers: LayerProgress[];
+  /** Total size of the transferred layers */
+  totalBytes: number;
+}
+
+export interface ImageLoadResult {
+  /** References of the loaded images: tags, or image IDs for untagged images */
+  loaded: string[];
+}
+
+export interface DistributionInspect {
+  /** Descriptor of the manifest (or manifest list) the reference points at */
+  descriptor: { mediaType: string; digest: string; size: number };
+  platforms: Array<{ architecture: string; os: string; variant?: string }>;
+}
+
+export interface ImageUpdateStatus {
+  containerId: string;
+  containerName: string;
+  image: string;
+  status: 'outdated' | 'up-to-date' | 'unknown';
+  localDigest?: string;
+  remoteDigest?: string;
+  /** Platforms available for the remote digest, e.g. "linux/arm64/v8" */
+  platforms: string[];
+  /** Why the status is unknown */
+  reason?: string;
+}
+
 export interface ImagePruneResult {
   imagesDeleted: Array<{ untagged?: string; deleted?: string }>;
   spaceReclaimed: number;
@@ -566,7 +864,7 @@ export interface NetworkCreateInput {
 
 export interface NetworkConnectInput {
   container: string;
-  endpointConfig?: EndpointSettings;
+  endpointConfig?: EndpointConfig;
 }
 
 export interface NetworkDisconnectInput {
@@ -574,10 +872,99 @@ export interface NetworkDisconnectInput {
   force?: boolean;
 }
 
+export interface TopologyNode {
+  /** Unique node ID, e.g. "network:backend" or "container:web" */
+  id: string;
+  type: 'network' | 'container' | 'service';
+  name: string;
+  /** Network driver, subnets and whether the network is internal (no outside access) */
+  driver?: string;
+  subnets?: string[];
+  internal?: boolean;
+  /** Container state and image */
+  state?: string;
+  image?: string;
+  /** Published ports, e.g. "0.0.0.0:8080->80/tcp" */
+  ports?: string[];
+}
+
+export interface TopologyEdge {
+  from: string;
+  to: string;
+  /** 'attachment' links a container or service to a network, 'task' a service to its containers */
+  kind: 'attachment' | 'task';
+  ipv4Address?: string;
+  ipv6Address?: string;
+  aliases?: string[];
+  /** Virtual IP of a service on the network */
+  vip?: string;
+}
+
+export interface NetworkTopology {
+  nodes: TopologyNode[];
+  edges: TopologyEdge[];
+}
+
+export interface ProbeStep {
+  step: 'resolution' | 'shared-networks' | 'tcp' | 'http';
+  status: 'ok' | 'failed' | 'skipped';
+  detail: string;
+  /** Addresses the target name resolved to */
+  addresses?: string[];
+  /** Networks both ends are attached to, with the address of each end */
+  networks?: Array<{ name: string; sourceAddress?: string; targetAddress?: string }>;
+  /** Address connected to and the tool used inside the container (nc, curl, ...) */
+  address?: string;
+  tool?: string;
+  statusCode?: number;
+}
+
+export interface ConnectivityProbe {
+  source: string;
+  target: {
+    input: string;
+    kind: 'container' | 'service' | 'host';
+    host: string;
+    port: number;
+    url?: string;
+  };
+  /** Where the probe ran: in the source container, or in a helper container on its networks */
+  ranIn: 'source' | 'helper';
+  helperImage?: string;
+  /** Why the helper container was used */
+  helperReason?: string;
+  reachable: boolean;
+  steps: ProbeStep[];
+}
+
 export interface NetworkPruneResult {
   networksDeleted: string[];
 }
 
+/**
+ * A host port published by a container or swarm service
+ */
+export interface PortMapping {
+  /** Host address ("0.0.0.0" when bound to all interfaces) */
+  hostIp: string;
+  hostPort: number;
+  protocol: 'tcp' | 'udp' | 'sctp';
+  targetPort: number;
+  source: 'container' | 'service';
+  id: string;
+  name: string;
+  /** Container state, or "service" */
+  state: string;
+  /**
+   * active: published by a running container; requested: in the PortBindings of a
+   * container that is not running; ingress: published by a swarm service
+   */
+  binding: 'active' | 'requested' | 'ingress';
+  allInterfaces: boolean;
+  /** Names of other containers/services bound to the same host port */
+  conflictsWith?: string[];
+}
+
 // =============================================================================
 // Volume Types
 // =============================================================================
@@ -597,6 +984,41 @@ export interface Volume {
   };
 }
 
+/**
+ * A volume backup stored in R2
+ */
+export interface VolumeBackup {
+  key: string;
+  volume: string;
+  size: number;
+  created: string;
+  compression: 'gzip' | 'none';
+  /** Whether a .sha256 checksum object is stored next to the backup */
+  checksum: boolean;
+}
+
+/**
+ * Size and users of a volume
+ */
+export interface VolumeUsage {
+  name: string;
+  driver: string;
+  /** Size in bytes; missing when the driver does not report it */
+  size?: number;
+  /** Number of containers referencing the volume, as counted by the daemon; missing when unknown */
+  refCount?: number;
+  createdAt?: string;
+  labels: Record<string, string>;
+  /** Created without a name (e.g. for a VOLUME instruction or --mount without source) */
+  anonymous: boolean;
+  /** Containers (running or stopped) that mount the volume */
+  containers: Array<{ id: string; name: string; state: string; destination: string; rw: boolean }>;
+  /** Not mounted by any container */
+  orphaned: boolean;
+  /** Removed by a volume prune without --all: anonymous and not mounted */
+  prunable: boolean;
+}
+
 export interface VolumeCreateInput {
   name?: string;
   driver?: string;
@@ -1471,6 +1893,65 @@ export interface HubBuildHistory {
   buildCode: string;
 }
 
+// =============================================================================
+// Registry (OCI Distribution) Types
+// =============================================================================
+
+export interface RegistryPlatform {
+  architecture: string;
+  os: string;
+  variant?: string;
+}
+
+export interface RegistryDescriptor {
+  mediaType: string;
+  digest: string;
+  size: number;
+  /** Platform of a manifest in a manifest list */
+  platform?: RegistryPlatform;
+  annotations?: Record<string, string>;
+}
+
+export interface RegistryManifest {
+  repository: string;
+  reference: string;
+  digest: string;
+  mediaType: string;
+  /** 'index' for manifest lists (multi-arch), 'image' for single image manifests */
+  kind: 'index' | 'image';
+  /** Platform manifests of an index */
+  manifests?: RegistryDescriptor[];
+  config?: RegistryDescriptor;
+  layers?: RegistryDescriptor[];
+  /** Total size of the layers of an image manifest */
+  totalSize?: number;
+  annotations?: Record<string, string>;
+}
+
+export interface RegistryImageConfig {
+  repository: string;
+  reference: string;
+  /** Digest of the image manifest the config belongs to */
+  manifestDigest: string;
+  configDigest: string;
+  architecture: string;
+  os: string;
+  variant?: string;
+  created?: string;
+  author?: string;
+  config: {
+    env?: string[];
+    entrypoint?: string[];
+    cmd?: string[];
+    user?: string;
+    workingDir?: string;
+    exposedPorts?: string[];
+    labels?: Record<string, string>;
+  };
+  diffIds: string[];
+  history: Array<{ created?: string; createdBy?: string; emptyLayer?: boolean; comment?: string }>;
+}
+
 // =============================================================================
 // Response Format
 // =============================================================================
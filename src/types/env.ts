@@ -110,6 +110,13 @@ export function hasDockerHubCredentials(credentials: TenantCredentials): boolean
   return !!(credentials.hubToken || (credentials.hubUsername && credentials.hubPassword));
 }
 
+/**
+ * Check if a registry is configured
+ */
+export function hasRegistryCredentials(credentials: TenantCredentials): boolean {
+  return !!credentials.registryUrl;
+}
+
 // =============================================================================
 // Environment Configuration (from wrangler.jsonc vars and bindings)
 // =============================================================================
@@ -135,6 +142,9 @@ export interface Env {
   /** KV namespace for caching */
   DOCKER_KV?: KVNamespace;
 
+  /** R2 bucket for container exports, image tarballs and volume backups (optional) */
+  DOCKER_ARTIFACTS?: R2Bucket;
+
   /** Durable Object namespace for MCP sessions */
   MCP_SESSIONS?: DurableObjectNamespace;
 
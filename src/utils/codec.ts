@@ -0,0 +1,191 @@
+/**
+ * Wire Codec
+ *
+ * Converts between the camelCase entity types in types/entities.ts and the
+ * PascalCase (and, for stats, snake_case) JSON used by the Docker Engine API.
+ *
+ * Most field names convert by changing the case of the first letter. Fields whose
+ * Docker names do not follow that rule are listed in WIRE_NAMES / ENTITY_NAMES, and
+ * map-like fields (labels, driver options, port bindings keyed by port, endpoints
+ * keyed by network name, ...) keep their keys untouched.
+ */
+
+/**
+ * JSON object in Docker's wire format
+ */
+export type WireObject = Record<string, unknown>;
+
+/**
+ * Entity field names whose Docker wire name is not just the capitalized name
+ */
+const WIRE_NAMES: Record<string, string> = {
+  auxAddress: 'AuxiliaryAddresses',
+  caCert: 'CACert',
+  caConfig: 'CAConfig',
+  configId: 'ConfigID',
+  containerIdFile: 'ContainerIDFile',
+  deviceIds: 'DeviceIDs',
+  dnsConfig: 'DNSConfig',
+  endpointId: 'EndpointID',
+  gid: 'GID',
+  ioMaximumBandwidth: 'IOMaximumBandwidth',
+  ioMaximumIOps: 'IOMaximumIOps',
+  ipam: 'IPAM',
+  ipamConfig: 'IPAMConfig',
+  ipRange: 'IPRange',
+  ipv4Address: 'IPv4Address',
+  ipv6Address: 'IPv6Address',
+  ipv6Gateway: 'IPv6Gateway',
+  kernelMemoryTcp: 'KernelMemoryTCP',
+  networkId: 'NetworkID',
+  os: 'OS',
+  rootFs: 'RootFS',
+  secretId: 'SecretID',
+  seLinuxContext: 'SELinuxContext',
+  uid: 'UID',
+  utsMode: 'UTSMode',
+};
+
+/**
+ * Docker wire names whose entity field name does not follow the default rules
+ */
+const ENTITY_NAMES: Record<string, string> = {
+  AuxiliaryAddresses: 'auxAddress',
+  ContainerID: 'containerID',
+  ContainerIDFile: 'containerIdFile',
+  MinAPIVersion: 'minApiVersion',
+  NEventsListener: 'neventsListener',
+  NFd: 'nfd',
+  NGoroutines: 'ngoroutines',
+  RootFS: 'rootFs',
+};
+
+/**
+ * Fields holding free-form maps: neither keys nor values are converted.
+ * Entries may be qualified with the parent field name ("parent.field").
+ */
+const OPAQUE_FIELDS = new Set([
+  'attributes',
+  'auxAddress',
+  'details',
+  'driverOpts',
+  'exposedPorts',
+  'labels',
+  'options',
+  'storageOpt',
+  'sysctls',
+  'tmpfs',
+  'volumes',
+  'graphDriver.data',
+  'logConfig.config',
+  'memoryStats.stats',
+  'volumes.status',
+]);
+
+/**
+ * Fields holding maps keyed by name (network, port, runtime, ...): keys are kept
+ * as-is while values are converted.
+ */
+const KEYED_FIELDS = new Set([
+  'containers',
+  'endpointsConfig',
+  'indexConfigs',
+  'networks',
+  'portBindings',
+  'ports',
+  'runtimes',
+]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fieldKind(parent: string, field: string): 'opaque' | 'keyed' | undefined {
+  if (OPAQUE_FIELDS.has(`${parent}.${field}`) || OPAQUE_FIELDS.has(field)) return 'opaque';
+  if (KEYED_FIELDS.has(field)) return 'keyed';
+  return undefined;
+}
+
+/**
+ * Convert an entity field name to its Docker wire name
+ */
+export function toWireName(field: string): string {
+  return WIRE_NAMES[field] ?? field.charAt(0).toUpperCase() + field.slice(1);
+}
+
+/**
+ * Convert a Docker wire name (PascalCase or snake_case) to its entity field name
+ */
+export function toEntityName(key: string): string {
+  const known = ENTITY_NAMES[key];
+  if (known) return known;
+
+  if (key.includes('_')) {
+    return key.toLowerCase().replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+  }
+  if (/^IPv[46]/.test(key)) {
+    return `ip${key.slice(2)}`;
+  }
+
+  // Lower-case a leading acronym ("IPAMConfig" -> "ipamConfig", "ID" -> "id")
+  const leading = /^[A-Z]+/.exec(key)?.[0] ?? '';
+  let name: string;
+  if (leading.length === key.length) {
+    name = key.toLowerCase();
+  } else if (leading.length > 1) {
+    name = leading.slice(0, -1).toLowerCase() + key.slice(leading.length - 1);
+  } else {
+    name = key.charAt(0).toLowerCase() + key.slice(1);
+  }
+
+  // Trailing identifiers follow the entity convention ("NetworkID" -> "networkId")
+  return name.replace(/ID(s?)$/, 'Id$1');
+}
+
+function convert(
+  value: unknown,
+  parent: string,
+  rename: (key: string) => string,
+  entityName: (key: string, renamed: string) => string
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => convert(item, parent, rename, entityName));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (child === undefined) continue;
+    const renamed = rename(key);
+    const field = entityName(key, renamed);
+    const kind = fieldKind(parent, field);
+
+    if (kind === 'opaque' && isPlainObject(child)) {
+      result[renamed] = child;
+    } else if (kind === 'keyed' && isPlainObject(child)) {
+      result[renamed] = Object.fromEntries(
+        Object.entries(child).map(([k, v]) => [k, convert(v, field, rename, entityName)])
+      );
+    } else {
+      result[renamed] = convert(child, field, rename, entityName);
+    }
+  }
+  return result;
+}
+
+/**
+ * Encode an entity (HostConfig, ServiceSpec, NetworkCreateInput, ...) into Docker's
+ * wire format. Undefined fields are dropped.
+ */
+export function toWire<T extends object>(entity: T): WireObject {
+  return convert(entity, '', toWireName, (key) => key) as WireObject;
+}
+
+/**
+ * Decode a Docker API response into the corresponding entity type
+ */
+export function fromWire<T>(wire: unknown): T {
+  return convert(wire, '', toEntityName, (_, renamed) => renamed) as T;
+}
@@ -0,0 +1,35 @@
+/**
+ * Concurrency Utilities
+ *
+ * Helpers for fanning out Docker API calls without flooding the daemon.
+ */
+
+/**
+ * Run an async function over a list of items with at most `limit` calls in flight.
+ *
+ * Results are returned in input order as settled results, so one failing item does
+ * not abort the others.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results = new Array<PromiseSettledResult<R>>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,15 @@
+/**
+ * Container Utilities
+ *
+ * Helpers for presenting containers as the Docker CLI shows them.
+ */
+
+import type { Container } from '../types/entities.js';
+
+/**
+ * Primary name of a listed container without the leading slash, or its short ID
+ * when it has no name
+ */
+export function containerName(container: Pick<Container, 'id' | 'names'>): string {
+  return container.names[0]?.replace(/^\//, '') ?? container.id.substring(0, 12);
+}
@@ -7,16 +7,22 @@
 import type {
   Config,
   Container,
+  ContainerStatsSummary,
   Image,
+  ImageUpdateStatus,
+  LogEntry,
   Network,
   PaginatedResponse,
   Plugin,
+  PortMapping,
   ResponseFormat,
   Secret,
   Service,
   SwarmNode,
   Task,
   Volume,
+  VolumeBackup,
+  VolumeUsage,
 } from '../types/entities.js';
 import { DockerApiError, formatErrorForLogging } from './errors.js';
 
@@ -130,6 +136,7 @@ function formatPaginatedAsMarkdown(data: PaginatedResponse<unknown>, entityType:
 
   if (data.items.length === 0) {
     lines.push('_No items found._');
+    lines.push(...formatItemErrors(data));
     return lines.join('\n');
   }
 
@@ -165,13 +172,46 @@ function formatPaginatedAsMarkdown(data: PaginatedResponse<unknown>, entityType:
     case 'plugins':
       lines.push(formatPluginsTable(data.items as Plugin[]));
       break;
+    case 'logs':
+      lines.push(formatLogEntries(data.items as LogEntry[]));
+      break;
+    case 'stats':
+      lines.push(formatStatsTable(data.items as ContainerStatsSummary[]));
+      break;
+    case 'ports':
+      lines.push(formatPortMapTable(data.items as PortMapping[]));
+      break;
+    case 'image_updates':
+      lines.push(formatImageUpdatesTable(data.items as ImageUpdateStatus[]));
+      break;
+    case 'volume_backups':
+      lines.push(formatVolumeBackupsTable(data.items as VolumeBackup[]));
+      break;
+    case 'volume_usage':
+      lines.push(formatVolumeUsageTable(data.items as VolumeUsage[]));
+      break;
     default:
       lines.push(formatGenericTable(data.items));
   }
+  lines.push(...formatItemErrors(data));
 
   return lines.join('\n');
 }
 
+/**
+ * Format the items a listing could not read (e.g. containers whose stats failed)
+ */
+function formatItemErrors(data: PaginatedResponse<unknown>): string[] {
+  const { errors } = data as { errors?: Array<{ id: string; name: string; error: string }> };
+  if (!errors || errors.length === 0) return [];
+  return [
+    '',
+    '### Errors',
+    '',
+    ...errors.map((e) => `- **${e.name}** (${e.id.substring(0, 12)}): ${e.error}`),
+  ];
+}
+
 /**
  * Format containers as Markdown table
  */
@@ -351,6 +391,126 @@ function formatPluginsTable(plugins: Plugin[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Format log entries as a Markdown code block
+ */
+function formatLogEntries(entries: LogEntry[]): string {
+  const lines: string[] = ['```'];
+
+  for (const entry of entries) {
+    const prefix = entry.timestamp ? `${entry.timestamp} ` : '';
+    const stream = entry.stream === 'stdout' ? '' : `[${entry.stream}] `;
+    lines.push(`${prefix}${stream}${entry.message}`);
+  }
+
+  lines.push('```');
+  return lines.join('\n');
+}
+
+/**
+ * Format container stats as Markdown table (like `docker stats`)
+ */
+function formatStatsTable(stats: ContainerStatsSummary[]): string {
+  const lines: string[] = [];
+  lines.push('| Container | Name | CPU % | Mem Usage / Limit | Mem % | Net I/O | Block I/O | PIDs |');
+  lines.push('|---|---|---|---|---|---|---|---|');
+
+  for (const s of stats) {
+    const memory = `${formatBytes(s.memoryUsage)} / ${formatBytes(s.memoryLimit)}`;
+    const net = `${formatBytes(s.networkRxBytes)} / ${formatBytes(s.networkTxBytes)}`;
+    const block = `${formatBytes(s.blockReadBytes)} / ${formatBytes(s.blockWriteBytes)}`;
+    lines.push(
+      `| ${s.id.substring(0, 12)} | ${s.name} | ${s.cpuPercent.toFixed(2)}% | ${memory} | ${s.memoryPercent.toFixed(2)}% | ${net} | ${block} | ${s.pids} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a host port map as Markdown table
+ */
+function formatPortMapTable(ports: PortMapping[]): string {
+  const lines: string[] = [];
+  lines.push('| Host | Target | Owner | State | Binding | Notes |');
+  lines.push('|---|---|---|---|---|---|');
+
+  for (const p of ports) {
+    const notes = [
+      p.allInterfaces ? 'all interfaces' : '',
+      p.conflictsWith?.length ? `conflicts with ${p.conflictsWith.join(', ')}` : '',
+    ]
+      .filter(Boolean)
+      .join('; ');
+    lines.push(
+      `| ${p.hostIp}:${p.hostPort}/${p.protocol} | ${p.targetPort} | ${p.source}: ${p.name} | ${p.state} | ${p.binding} | ${notes || '-'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format image update checks as Markdown table
+ */
+function formatImageUpdatesTable(updates: ImageUpdateStatus[]): string {
+  const lines: string[] = [];
+  lines.push('| Container | Image | Status | Local Digest | Remote Digest | Platforms |');
+  lines.push('|---|---|---|---|---|---|');
+
+  const short = (digest?: string) => (digest ? digest.replace(/^(sha256:.{12}).*$/, '$1') : '-');
+  for (const u of updates) {
+    const status = u.reason ? `${u.status} (${u.reason})` : u.status;
+    lines.push(
+      `| ${u.containerName} | ${u.image} | ${status} | ${short(u.localDigest)} | ${short(u.remoteDigest)} | ${u.platforms.join(', ') || '-'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format volume backups as Markdown table
+ */
+function formatVolumeBackupsTable(backups: VolumeBackup[]): string {
+  const lines: string[] = [];
+  lines.push('| Volume | Key | Size | Created | Compression | Checksum |');
+  lines.push('|---|---|---|---|---|---|');
+
+  for (const b of backups) {
+    lines.push(
+      `| ${b.volume} | ${b.key} | ${formatBytes(b.size)} | ${b.created} | ${b.compression} | ${b.checksum ? 'yes' : 'no'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format volume usage as Markdown table
+ */
+function formatVolumeUsageTable(volumes: VolumeUsage[]): string {
+  const lines: string[] = [];
+  lines.push('| Name | Size | Refs | Created | Containers | Labels | Status |');
+  lines.push('|---|---|---|---|---|---|---|');
+
+  for (const v of volumes) {
+    const name = v.anonymous ? `${v.name.substring(0, 12)} (anonymous)` : v.name;
+    const size = v.size !== undefined ? formatBytes(v.size) : '-';
+    const containers = v.containers.map((c) => `${c.name} (${c.state})`).join(', ') || '-';
+    const labels = Object.entries(v.labels)
+      .filter(([key]) => key !== 'com.docker.volume.anonymous')
+      .map(([key, value]) => `${key}=${value}`)
+      .join(', ');
+    const status = v.prunable ? '**orphaned, prunable**' : v.orphaned ? 'orphaned' : 'in use';
+    lines.push(
+      `| ${name} | ${size} | ${v.refCount ?? '-'} | ${v.createdAt ?? '-'} | ${containers} | ${labels || '-'} | ${status} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format a generic array as Markdown table
  */
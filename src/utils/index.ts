@@ -1,2 +1,16 @@
+export * from './codec.js';
+export * from './concurrency.js';
+export * from './containers.js';
 export * from './errors.js';
 export * from './formatters.js';
+export * from './ipam.js';
+export * from './layers.js';
+export * from './pagination.js';
+export * from './probe.js';
+export * from './progress.js';
+export * from './r2.js';
+export * from './registry.js';
+export * from './stats.js';
+export * from './streams.js';
+export * from './tar.js';
+export * from './topology.js';
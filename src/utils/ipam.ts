@@ -0,0 +1,150 @@
+/**
+ * IPAM Utilities
+ *
+ * CIDR arithmetic for IPv4 and IPv6 subnets: parsing, overlap and containment
+ * checks, and allocation of the next free subnet from an address pool.
+ */
+
+import { ValidationError } from './errors.js';
+
+/**
+ * A parsed CIDR block
+ */
+export interface Cidr {
+  version: 4 | 6;
+  /** First address of the block */
+  start: bigint;
+  /** Last address of the block */
+  end: bigint;
+  prefix: number;
+}
+
+/**
+ * Parse a CIDR block ("10.0.0.0/24", "fd00::/64"). Host bits are ignored.
+ */
+export function parseCidr(cidr: string): Cidr {
+  const [address, prefixText, ...rest] = cidr.trim().split('/');
+  const ip = address !== undefined ? parseIp(address) : undefined;
+  const bits = ip?.version === 4 ? 32 : 128;
+  const prefix = Number(prefixText);
+  if (!ip || rest.length > 0 || !/^\d+$/.test(prefixText ?? '') || prefix > bits) {
+    throw new ValidationError(`Invalid CIDR: ${cidr}`, {
+      subnet: ['Expected a CIDR such as "172.28.0.0/16" or "fd00:1::/64"'],
+    });
+  }
+  const size = 1n << BigInt(bits - prefix);
+  const start = (ip.value / size) * size;
+  return { version: ip.version, start, end: start + size - 1n, prefix };
+}
+
+/**
+ * Parse an IPv4 or IPv6 address, or return undefined when it is not valid
+ */
+export function parseIp(address: string): { version: 4 | 6; value: bigint } | undefined {
+  if (address.includes(':')) {
+    const value = parseIpv6(address);
+    return value === undefined ? undefined : { version: 6, value };
+  }
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p) && Number(p) <= 255)) {
+    return undefined;
+  }
+  return { version: 4, value: parts.reduce((v, p) => (v << 8n) | BigInt(p), 0n) };
+}
+
+/**
+ * Whether two CIDR blocks share any address
+ */
+export function cidrsOverlap(a: Cidr, b: Cidr): boolean {
+  return a.version === b.version && a.start <= b.end && b.start <= a.end;
+}
+
+/**
+ * Whether an address or CIDR block lies within a CIDR block
+ */
+export function cidrContains(outer: Cidr, inner: string): boolean {
+  const block = inner.includes('/') ? parseCidr(inner) : undefined;
+  const ip = block ? { version: block.version, value: block.start } : parseIp(inner);
+  if (!ip || ip.version !== outer.version) return false;
+  return ip.value >= outer.start && (block?.end ?? ip.value) <= outer.end;
+}
+
+/**
+ * Format a CIDR block
+ */
+export function formatCidr(cidr: Cidr): string {
+  return `${formatIp(cidr.version, cidr.start)}/${cidr.prefix}`;
+}
+
+/**
+ * Find the first subnet of the given prefix length within a pool that does not
+ * overlap any of the used blocks
+ */
+export function findFreeSubnet(pool: string, prefix: number, used: Cidr[]): string | undefined {
+  const range = parseCidr(pool);
+  const bits = range.version === 4 ? 32 : 128;
+  if (prefix < range.prefix || prefix > bits) {
+    throw new ValidationError(`Prefix length /${prefix} does not fit in pool ${pool}`, {
+      prefixLength: [`Use a prefix length between ${range.prefix} and ${bits}`],
+    });
+  }
+
+  const size = 1n << BigInt(bits - prefix);
+  const blocks = used
+    .filter((u) => cidrsOverlap(u, range))
+    .sort((a, b) => (a.start < b.start ? -1 : 1));
+  let candidate = range.start;
+  while (candidate + size - 1n <= range.end) {
+    const end = candidate + size - 1n;
+    const blocking = blocks.find((b) => b.start <= end && b.end >= candidate);
+    if (!blocking) {
+      return formatCidr({ version: range.version, start: candidate, end, prefix });
+    }
+    // Skip past the used block, keeping the candidate aligned to its size
+    candidate = ((blocking.end + 1n + size - 1n) / size) * size;
+  }
+  return undefined;
+}
+
+function parseIpv6(address: string): bigint | undefined {
+  let text = address;
+  // An embedded IPv4 address (::ffff:10.0.0.1) counts as two groups
+  const v4 = /^(.*:)(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (v4) {
+    const ip = parseIp(v4[2]);
+    if (!ip) return undefined;
+    text = `${v4[1]}${(ip.value >> 16n).toString(16)}:${(ip.value & 0xffffn).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return undefined;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) return undefined;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every((g) => /^[0-9a-fA-F]{1,4}$/.test(g))) return undefined;
+  return groups.reduce((v, g) => (v << 16n) | BigInt(`0x${g}`), 0n);
+}
+
+function formatIp(version: 4 | 6, value: bigint): string {
+  if (version === 4) {
+    return [24n, 16n, 8n, 0n].map((shift) => String((value >> shift) & 0xffn)).join('.');
+  }
+  const groups = Array.from({ length: 8 }, (_, i) =>
+    ((value >> BigInt((7 - i) * 16)) & 0xffffn).toString(16)
+  );
+  // Compress the longest run of zero groups
+  let best = { start: -1, length: 0 };
+  for (let i = 0; i < 8; ) {
+    let j = i;
+    while (j < 8 && groups[j] === '0') j++;
+    if (j - i > best.length && j - i > 1) best = { start: i, length: j - i };
+    i = j === i ? i + 1 : j;
+  }
+  if (best.start === -1) return groups.join(':');
+  const head = groups.slice(0, best.start).join(':');
+  const tail = groups.slice(best.start + best.length).join(':');
+  return `${head}::${tail}`;
+}
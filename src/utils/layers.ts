@@ -0,0 +1,278 @@
+/**
+ * Layer Utilities
+ *
+ * Analysis of image history (layer sizes, wasted space) and comparison of two
+ * images. Both work on the instructions recorded in the history, so findings are
+ * heuristics: the history shows how a layer was created, not the files it holds.
+ */
+
+import type {
+  ImageComparison,
+  ImageHistory,
+  ImageInspect,
+  ImageLayer,
+  ImageLayerAnalysis,
+  LayerDiffEntry,
+  LayerFinding,
+  MapDiff,
+  ValueChange,
+} from '../types/entities.js';
+
+/** Instructions that create a filesystem layer */
+const LAYER_INSTRUCTION = /^(RUN|ADD|COPY)\b/;
+
+/**
+ * Package manager installs that leave caches behind unless cleaned up in the same
+ * instruction
+ */
+const PACKAGE_CACHE_RULES: Array<{ install: RegExp; cleanup: RegExp; message: string }> = [
+  {
+    install: /\bapt(-get)?\s+(-\S+\s+)*install\b/,
+    cleanup: /\brm\s[^;&|]*\/var\/lib\/apt\/lists/,
+    message: 'apt package lists are left in the layer; remove /var/lib/apt/lists/* in the same RUN',
+  },
+  {
+    install: /\bapk\s+(-\S+\s+)*add\b/,
+    cleanup: /--no-cache\b|\brm\s[^;&|]*\/var\/cache\/apk/,
+    message: 'apk index cache is left in the layer; use apk add --no-cache',
+  },
+  {
+    install: /\b(yum|dnf|microdnf)\s+(-\S+\s+)*install\b/,
+    cleanup: /\b(yum|dnf|microdnf)\s+clean\s+all\b|\brm\s[^;&|]*\/var\/cache\/(yum|dnf)/,
+    message: 'Package manager cache is left in the layer; run "clean all" in the same RUN',
+  },
+  {
+    install: /\bpip3?\s+install\b/,
+    cleanup: /--no-cache-dir\b|PIP_NO_CACHE_DIR|\brm\s[^;&|]*\.cache\/pip/,
+    message: 'pip cache is left in the layer; use pip install --no-cache-dir',
+  },
+  {
+    install: /\bnpm\s+(install|ci|i)\b/,
+    cleanup: /\bnpm\s+cache\s+clean\b|\brm\s[^;&|]*\.npm\b/,
+    message: 'npm cache is left in the layer; run npm cache clean --force in the same RUN',
+  },
+  {
+    install: /\byarn\s+install\b/,
+    cleanup: /\byarn\s+cache\s+clean\b/,
+    message: 'Yarn cache is left in the layer; run yarn cache clean in the same RUN',
+  },
+];
+
+/**
+ * Turn a history CreatedBy value into the Dockerfile instruction it came from, for
+ * both the classic builder ("/bin/sh -c #(nop)  CMD [...]") and BuildKit
+ * ("RUN /bin/sh -c ... # buildkit")
+ */
+export function normalizeInstruction(createdBy: string): string {
+  let text = createdBy.trim().replace(/\s*# buildkit$/, '');
+  // Build arguments used by a RUN are recorded as "|<count> NAME=value ... <command>"
+  text = text.replace(/^\|\d+\s+(\S+=\S*\s+)*/, '');
+  const nop = /^\/bin\/sh -c #\(nop\)\s*(.*)$/s.exec(text);
+  if (nop) return nop[1].trim();
+  const shell = /^(?:RUN\s+)?((?:--\S+\s+)*)\/bin\/sh -c\s+(.*)$/s.exec(text);
+  if (shell) return `RUN ${shell[1]}${shell[2]}`.trim();
+  return text;
+}
+
+/**
+ * Rank the layers of an image by size and flag layers that likely hold wasted space.
+ *
+ * @param history - Image history as returned by the daemon (newest entry first)
+ */
+export function analyzeLayers(
+  history: ImageHistory[]
+): Pick<ImageLayerAnalysis, 'layers' | 'emptyLayers' | 'findings'> {
+  const total = history.reduce((sum, h) => sum + h.size, 0);
+  const entries = [...history].reverse().map((h, i) => ({
+    index: i + 1,
+    instruction: normalizeInstruction(h.createdBy),
+    size: h.size,
+    percent: total > 0 ? Math.round((h.size / total) * 1000) / 10 : 0,
+    created: new Date(h.created * 1000).toISOString(),
+  }));
+  const layers = entries.filter((e) => e.size > 0);
+
+  const findings: LayerFinding[] = [];
+  for (const layer of layers) {
+    if (!layer.instruction.startsWith('RUN') || layer.instruction.includes('--mount=type=cache')) {
+      continue;
+    }
+    for (const rule of PACKAGE_CACHE_RULES) {
+      if (rule.install.test(layer.instruction) && !rule.cleanup.test(layer.instruction)) {
+        findings.push({ kind: 'package-cache', ...pick(layer), message: rule.message });
+      }
+    }
+  }
+
+  // Files removed by a later RUN still take up space in the layer that added them.
+  // Layers that only remove files report a size of 0, so all entries are checked.
+  for (const later of entries) {
+    if (!later.instruction.startsWith('RUN')) continue;
+    for (const path of removedPaths(later.instruction)) {
+      const earlier = layers.find((l) => l.index < later.index && addsPath(l.instruction, path));
+      if (!earlier) continue;
+      findings.push({
+        kind: 'removed-later',
+        ...pick(earlier),
+        message: `${path} is removed in layer ${later.index}, but its files still take up space in this layer`,
+      });
+    }
+  }
+
+  return {
+    layers: layers.sort((a, b) => b.size - a.size),
+    emptyLayers: entries.length - layers.length,
+    findings,
+  };
+}
+
+/**
+ * Compare the configuration and layers of two images
+ */
+export function compareImages(
+  base: { name: string; inspect: ImageInspect; history: ImageHistory[] },
+  target: { name: string; inspect: ImageInspect; history: ImageHistory[] }
+): ImageComparison {
+  const a = base.inspect.config ?? {};
+  const b = target.inspect.config ?? {};
+  const config: ImageComparison['config'] = {
+    env: diffMaps(parseEnv(a.env), parseEnv(b.env)),
+    labels: diffMaps(a.labels ?? {}, b.labels ?? {}),
+    exposedPorts: diffKeys(a.exposedPorts, b.exposedPorts),
+    entrypoint: valueChange(a.entrypoint, b.entrypoint),
+    cmd: valueChange(a.cmd, b.cmd),
+    user: valueChange(a.user || undefined, b.user || undefined),
+    workingDir: valueChange(a.workingDir || undefined, b.workingDir || undefined),
+  };
+
+  // Layers are shared on disk only while the whole chain below them is identical
+  const baseLayers = attributeLayers(base.history, base.inspect.rootFs?.layers ?? []);
+  const targetLayers = attributeLayers(target.history, target.inspect.rootFs?.layers ?? []);
+  let shared = 0;
+  while (
+    shared < baseLayers.length &&
+    shared < targetLayers.length &&
+    baseLayers[shared].digest === targetLayers[shared].digest
+  ) {
+    shared++;
+  }
+
+  return {
+    base: summarize(base.name, base.inspect),
+    target: summarize(target.name, target.inspect),
+    config,
+    layers: {
+      shared,
+      sharedSize: baseLayers.slice(0, shared).reduce((sum, l) => sum + (l.size ?? 0), 0),
+      onlyInBase: baseLayers.slice(shared),
+      onlyInTarget: targetLayers.slice(shared),
+    },
+  };
+}
+
+/**
+ * Match the layer digests of an image to the history entries that created them.
+ * History entries do not reference their layer, so they are matched by position
+ * when the number of layer-creating entries equals the number of layers.
+ */
+function attributeLayers(history: ImageHistory[], digests: string[]): LayerDiffEntry[] {
+  const rows = [...history].reverse();
+  const creating = rows.filter((h) => LAYER_INSTRUCTION.test(normalizeInstruction(h.createdBy)));
+  const sized = rows.filter((h) => h.size > 0);
+  const match =
+    creating.length === digests.length
+      ? creating
+      : sized.length === digests.length
+        ? sized
+        : undefined;
+
+  return digests.map((digest, i) => ({
+    digest,
+    instruction: match ? normalizeInstruction(match[i].createdBy) : undefined,
+    size: match?.[i].size,
+  }));
+}
+
+function pick(layer: ImageLayer): Pick<LayerFinding, 'index' | 'instruction' | 'size'> {
+  return { index: layer.index, instruction: layer.instruction, size: layer.size };
+}
+
+/**
+ * Absolute paths removed by rm commands in a RUN instruction
+ */
+function removedPaths(instruction: string): string[] {
+  const paths: string[] = [];
+  for (const match of instruction.matchAll(/\brm\s+((?:-\S+\s+)*)([^;&|]+)/g)) {
+    for (const target of match[2].trim().split(/\s+/)) {
+      const path = target.replace(/^["']|["']$/g, '').replace(/\/?\*?$/, '');
+      if (path.startsWith('/') && path.length > 1) paths.push(path);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Whether an instruction likely added files at or below a path: a COPY/ADD to it, or
+ * a RUN that mentions it
+ */
+function addsPath(instruction: string, path: string): boolean {
+  const copy = /^(?:ADD|COPY)\s.*\s(\S+)$/.exec(instruction);
+  if (copy) {
+    const dest = copy[1].replace(/\/$/, '');
+    return (
+      dest !== '' && (dest === path || path.startsWith(`${dest}/`) || dest.startsWith(`${path}/`))
+    );
+  }
+  if (instruction.startsWith('RUN') && !removedPaths(instruction).includes(path)) {
+    return instruction
+      .split(/[\s"'=;&|]+/)
+      .some((token) => token === path || token.startsWith(`${path}/`));
+  }
+  return false;
+}
+
+function parseEnv(env: string[] = []): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const entry of env) {
+    const eq = entry.indexOf('=');
+    if (eq === -1) vars[entry] = '';
+    else vars[entry.slice(0, eq)] = entry.slice(eq + 1);
+  }
+  return vars;
+}
+
+function diffMaps(from: Record<string, string>, to: Record<string, string>): MapDiff {
+  const diff: MapDiff = { added: {}, removed: {}, changed: {} };
+  for (const [key, value] of Object.entries(to)) {
+    if (!(key in from)) diff.added[key] = value;
+    else if (from[key] !== value) diff.changed[key] = { from: from[key], to: value };
+  }
+  for (const [key, value] of Object.entries(from)) {
+    if (!(key in to)) diff.removed[key] = value;
+  }
+  return diff;
+}
+
+function diffKeys(
+  from: Record<string, object> = {},
+  to: Record<string, object> = {}
+): { added: string[]; removed: string[] } {
+  return {
+    added: Object.keys(to).filter((key) => !(key in from)),
+    removed: Object.keys(from).filter((key) => !(key in to)),
+  };
+}
+
+function valueChange<T>(from: T, to: T): ValueChange<T> | undefined {
+  return JSON.stringify(from) === JSON.stringify(to) ? undefined : { from, to };
+}
+
+function summarize(name: string, image: ImageInspect): ImageComparison['base'] {
+  return {
+    name,
+    id: image.id,
+    created: image.created,
+    size: image.size,
+    platform: [image.os, image.architecture].filter(Boolean).join('/'),
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Pagination Utilities
+ *
+ * Cursor pagination over lists that the Docker API returns in full. Cursors are
+ * keyset cursors (sort value + ID of the last returned item), so pages stay
+ * consistent when items are added or removed between calls.
+ */
+
+import type { PaginatedResponse } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+import { fromBase64, toBase64 } from './streams.js';
+
+/**
+ * Position of an item in a sorted list
+ */
+export interface SortKey {
+  value: string | number;
+  id: string;
+}
+
+interface CursorData extends SortKey {
+  /** Sort the cursor was created for */
+  sort: string;
+  /** Hash of the filters the cursor was created for */
+  filters: string;
+}
+
+/**
+ * Compare two sort keys by value, then by ID
+ */
+export function compareSortKeys(a: SortKey, b: SortKey): number {
+  const byValue =
+    typeof a.value === 'number' && typeof b.value === 'number'
+      ? a.value - b.value
+      : String(a.value).localeCompare(String(b.value));
+  return byValue !== 0 ? byValue : a.id.localeCompare(b.id);
+}
+
+/**
+ * Sort items and return the page following the cursor.
+ *
+ * @param sort - Identifies the sort order (e.g. "created:desc"); a cursor is only
+ *   valid for the sort it was created with
+ * @param filters - Filters the items were listed with; a cursor is only valid for the
+ *   filters it was created with
+ */
+export function paginate<T>(
+  items: T[],
+  options: {
+    limit: number;
+    cursor?: string;
+    sort: string;
+    descending?: boolean;
+    filters?: Record<string, unknown>;
+  },
+  keyOf: (item: T) => SortKey
+): PaginatedResponse<T> {
+  const filters = hashFilters(options.filters ?? {});
+  const direction = options.descending ? -1 : 1;
+  const compare = (a: SortKey, b: SortKey) => direction * compareSortKeys(a, b);
+  const sorted = items
+    .map((item) => ({ item, key: keyOf(item) }))
+    .sort((a, b) => compare(a.key, b.key));
+
+  let start = 0;
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (cursor.sort !== options.sort) {
+      throw new ValidationError('Cursor was created for a different sort order', {
+        cursor: [`Expected a cursor for sort '${options.sort}'`],
+      });
+    }
+    if (cursor.filters !== filters) {
+      throw new ValidationError('Cursor was created for different filters', {
+        cursor: ['Pass the same filters as the request that returned the cursor'],
+      });
+    }
+    start = sorted.findIndex((entry) => compare(entry.key, cursor) > 0);
+    if (start === -1) start = sorted.length;
+  }
+
+  const page = sorted.slice(start, start + options.limit);
+  const hasMore = start + page.length < sorted.length;
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map((entry) => entry.item),
+    count: page.length,
+    total: sorted.length,
+    hasMore,
+    nextCursor:
+      hasMore && last
+        ? encodeCursor({ sort: options.sort, filters, value: last.key.value, id: last.key.id })
+        : undefined,
+  };
+}
+
+function encodeCursor(data: CursorData): string {
+  return toBase64(new TextEncoder().encode(JSON.stringify(data))).replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): CursorData {
+  try {
+    const data = JSON.parse(new TextDecoder().decode(fromBase64(cursor))) as CursorData;
+    if (
+      typeof data.sort === 'string' &&
+      typeof data.filters === 'string' &&
+      typeof data.id === 'string' &&
+      data.value !== undefined
+    ) {
+      return data;
+    }
+  } catch {
+    // Fall through to the validation error
+  }
+  throw new ValidationError('Invalid cursor', {
+    cursor: ['Use the nextCursor of a previous response'],
+  });
+}
+
+/**
+ * Hash filters independently of key and array order (32-bit FNV-1a). Unset filters
+ * are left out, so omitting a filter and passing undefined hash the same.
+ */
+function hashFilters(filters: Record<string, unknown>): string {
+  const normalize = (value: unknown): unknown =>
+    Array.isArray(value) ? value.map((v) => JSON.stringify(normalize(v))).sort() : value;
+  const entries = Object.entries(filters)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, normalize(value)])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)));
+
+  let hash = 0x811c9dc5;
+  for (const char of JSON.stringify(entries)) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
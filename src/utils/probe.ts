@@ -0,0 +1,230 @@
+/**
+ * Connectivity Probe Utilities
+ *
+ * A POSIX shell script that resolves a host and connects to it from inside a
+ * container, using whichever tools the image has (getent or nslookup; bash, nc,
+ * curl or wget), and the parser for the result lines it prints.
+ */
+
+import type { ProbeStep } from '../types/entities.js';
+
+/**
+ * Probe script. Positional parameters: host, port, scheme, path, timeout (seconds),
+ * resolve (1 to look up host), http (1 to send a GET) and a fallback address to
+ * connect to when the lookup fails.
+ *
+ * Every result is printed as one "@<step> ..." line.
+ */
+const PROBE_SCRIPT = String.raw`
+host=$1; port=$2; scheme=$3; path=$4; t=$5; resolve=$6; http=$7; fallback=$8
+have() { command -v "$1" >/dev/null 2>&1; }
+# Without timeout, a watchdog kills the command; 124 is returned like timeout does
+wrap() {
+  if have timeout; then timeout "$t" "$@"; return; fi
+  "$@" & pid=$!
+  ( sleep "$t"; kill "$pid" ) >/dev/null 2>&1 & watchdog=$!
+  wait "$pid"; rc=$?
+  if kill "$watchdog" 2>/dev/null; then return "$rc"; fi
+  return 124
+}
+line() { tr '\r\n' '  '; echo; }
+
+tools=
+for c in getent nslookup bash nc curl wget timeout; do
+  if have "$c"; then tools="$tools $c"; fi
+done
+echo "@tools$tools"
+
+target=$host
+if [ "$resolve" = 1 ]; then
+  if have getent; then
+    found=$(wrap getent ahosts "$host" | awk '{print $1}' | sort -u | line)
+  elif have nslookup; then
+    found=$(wrap nslookup "$host" 2>/dev/null | awk '/^Name:/ {n = 1; next} n && /^Address/ {for (i = 2; i <= NF; i++) if ($i ~ /^[0-9.]+$|:.*:/) {print $i; break}}' | sort -u | line)
+  else
+    found=none
+  fi
+  if [ "$found" = none ]; then
+    echo "@dns none"
+  elif [ -n "$found" ]; then
+    echo "@dns ok $found"
+  else
+    echo "@dns fail"; target=$fallback
+  fi
+fi
+
+tcp=
+if [ -z "$target" ]; then
+  echo "@tcp skip"
+elif have bash; then
+  if out=$(wrap bash -c 'exec 3<>"/dev/tcp/$0/$1"' "$target" "$port" 2>&1); then
+    tcp=ok; echo "@tcp ok bash $target"
+  else
+    rc=$?; echo "@tcp fail bash $target $rc $out" | line
+  fi
+elif have nc; then
+  if out=$(nc -z -w "$t" "$target" "$port" 2>&1); then
+    tcp=ok; echo "@tcp ok nc $target"
+  else
+    rc=$?; echo "@tcp fail nc $target $rc $out" | line
+  fi
+else
+  echo "@tcp none"
+fi
+
+if [ "$http" = 1 ]; then
+  case $target in *:*) h="[$target]" ;; *) h=$target ;; esac
+  url="$scheme://$h:$port$path"
+  if [ "$tcp" != ok ]; then
+    echo "@http skip"
+  elif have curl; then
+    echo "@http $(curl -s -o /dev/null -m "$t" -w '%{http_code}' "$url" 2>/dev/null) curl $url"
+  elif have wget; then
+    code=$(wget -S -O /dev/null -T "$t" "$url" 2>&1 | awk '/^ *HTTP\// {c = $2} END {print c + 0}')
+    echo "@http $code wget $url"
+  elif have bash && [ "$scheme" = http ]; then
+    code=$(wrap bash -c 'exec 3<>"/dev/tcp/$0/$1"; printf "GET %s HTTP/1.0\r\nHost: %s\r\n\r\n" "$2" "$0" >&3; read -r _ c _ <&3; echo "$((c + 0))"' "$target" "$port" "$path" 2>/dev/null)
+    echo "@http $((code + 0)) bash $url"
+  else
+    echo "@http none"
+  fi
+fi
+`;
+
+/**
+ * Options of a probe run
+ */
+export interface ProbeOptions {
+  host: string;
+  port: number;
+  scheme: 'http' | 'https';
+  path: string;
+  timeout: number;
+  /** Look up host (false for IP addresses) */
+  resolve: boolean;
+  http: boolean;
+  /** Address to connect to when the lookup fails */
+  fallback?: string;
+}
+
+/**
+ * Parsed probe output. A step is missing when it was not run, and tools is
+ * undefined when the script did not run at all (no shell in the image).
+ */
+export interface ProbeOutput {
+  tools?: string[];
+  resolution?: ProbeStep;
+  tcp?: ProbeStep;
+  http?: ProbeStep;
+  /** Steps that could not run because the image has no tool for them */
+  missing: Array<'resolution' | 'tcp' | 'http'>;
+}
+
+/**
+ * Command that runs the probe script with sh
+ */
+export function probeCommand(options: ProbeOptions): string[] {
+  return [
+    'sh',
+    '-c',
+    PROBE_SCRIPT,
+    'probe',
+    options.host,
+    String(options.port),
+    options.scheme,
+    options.path,
+    String(options.timeout),
+    options.resolve ? '1' : '0',
+    options.http ? '1' : '0',
+    options.fallback ?? '',
+  ];
+}
+
+/**
+ * Parse the output of the probe script
+ */
+export function parseProbeOutput(text: string, options: ProbeOptions): ProbeOutput {
+  const output: ProbeOutput = { missing: [] };
+
+  for (const raw of text.split('\n')) {
+    const [marker, first = '', ...rest] = raw.replace(/\r$/, '').trim().split(/\s+/);
+    switch (marker) {
+      case '@tools':
+        output.tools = raw.trim().split(/\s+/).slice(1);
+        break;
+      case '@dns':
+        if (first === 'none') output.missing.push('resolution');
+        else output.resolution = resolutionStep(options, first === 'ok' ? rest : undefined);
+        break;
+      case '@tcp':
+        if (first === 'none') output.missing.push('tcp');
+        else output.tcp = tcpStep(options, first, rest);
+        break;
+      case '@http':
+        if (first === 'none') output.missing.push('http');
+        else output.http = httpStep(first, rest);
+        break;
+    }
+  }
+
+  return output;
+}
+
+function resolutionStep(options: ProbeOptions, addresses: string[] | undefined): ProbeStep {
+  if (addresses && addresses.length > 0) {
+    return {
+      step: 'resolution',
+      status: 'ok',
+      detail: `${options.host} resolved to ${addresses.join(', ')}`,
+      addresses,
+    };
+  }
+  return {
+    step: 'resolution',
+    status: 'failed',
+    detail: options.fallback
+      ? `${options.host} did not resolve; connecting to ${options.fallback} instead`
+      : `${options.host} did not resolve`,
+  };
+}
+
+function tcpStep(options: ProbeOptions, result: string, rest: string[]): ProbeStep {
+  if (result === 'skip') {
+    return { step: 'tcp', status: 'skipped', detail: `${options.host} did not resolve` };
+  }
+
+  const [tool, address, exitCode, ...message] = rest;
+  const target = `${address?.includes(':') ? `[${address}]` : address}:${options.port}`;
+  if (result === 'ok') {
+    return { step: 'tcp', status: 'ok', detail: `Connected to ${target}`, address, tool };
+  }
+
+  // timeout exits with 124; nc and bash print the reason (refused, unreachable, ...)
+  const reason = exitCode === '124' ? `timed out after ${options.timeout}s` : message.join(' ');
+  return {
+    step: 'tcp',
+    status: 'failed',
+    detail: `Could not connect to ${target}${reason ? `: ${reason}` : ''}`,
+    address,
+    tool,
+  };
+}
+
+function httpStep(result: string, rest: string[]): ProbeStep {
+  if (result === 'skip') {
+    return { step: 'http', status: 'skipped', detail: 'TCP connection failed' };
+  }
+
+  const [tool, url] = rest;
+  const statusCode = Number(result);
+  if (!statusCode) {
+    return { step: 'http', status: 'failed', detail: `No HTTP response from ${url}`, tool };
+  }
+  return {
+    step: 'http',
+    status: statusCode < 400 ? 'ok' : 'failed',
+    detail: `GET ${url} returned ${statusCode}`,
+    tool,
+    statusCode,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Progress Stream Utilities
+ *
+ * Parsers for the JSON progress streams returned by the build, pull and push
+ * endpoints: a sequence of JSON messages separated by newlines.
+ */
+
+import type {
+  BuildError,
+  BuildStep,
+  ImageBuildResult,
+  ImageLoadResult,
+  ImageTransferResult,
+  LayerProgress,
+} from '../types/entities.js';
+import { DockerApiError } from './errors.js';
+
+/**
+ * A single message of a JSON progress stream
+ */
+export interface ProgressMessage {
+  stream?: string;
+  status?: string;
+  id?: string;
+  progress?: string;
+  progressDetail?: { current?: number; total?: number };
+  aux?: Record<string, unknown>;
+  error?: string;
+  errorDetail?: { code?: number; message?: string };
+}
+
+/** Output lines kept per build step */
+const MAX_STEP_OUTPUT = 50;
+
+/**
+ * Split a JSON progress stream into messages. Lines that are not valid JSON are
+ * returned as plain stream output.
+ */
+export function parseJsonStream(text: string): ProgressMessage[] {
+  const messages: ProgressMessage[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      messages.push(JSON.parse(trimmed) as ProgressMessage);
+    } catch {
+      messages.push({ stream: `${trimmed}\n` });
+    }
+  }
+  return messages;
+}
+
+/**
+ * Summarize the progress stream of a (classic builder) image build into steps, the
+ * resulting image ID and tags, and the build error if any.
+ */
+export function parseBuildOutput(messages: ProgressMessage[]): ImageBuildResult {
+  const steps: BuildStep[] = [];
+  const tags: string[] = [];
+  const warnings: string[] = [];
+  let imageId: string | undefined;
+  let error: BuildError | undefined;
+
+  const addOutput = (line: string) => {
+    const current = steps[steps.length - 1];
+    if (!current) {
+      warnings.push(line);
+      return;
+    }
+    if (line.trim() === '---> Using cache') {
+      current.cached = true;
+    }
+    current.output.push(line);
+    if (current.output.length > MAX_STEP_OUTPUT) {
+      current.output.shift();
+    }
+  };
+
+  for (const message of messages) {
+    if (message.error || message.errorDetail) {
+      const current = steps[steps.length - 1];
+      error = {
+        message: message.errorDetail?.message ?? message.error ?? 'Build failed',
+        code: message.errorDetail?.code,
+        step: current ? `${current.step} ${current.instruction}` : undefined,
+      };
+      continue;
+    }
+
+    const id = message.aux?.ID;
+    if (typeof id === 'string') {
+      imageId = id;
+      continue;
+    }
+
+    // Per-layer pull progress of base images is not part of the step output
+    const text = message.stream ?? (message.id ? '' : message.status) ?? '';
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+
+      const step = /^Step (\d+\/\d+) : (.*)$/.exec(line);
+      if (step) {
+        steps.push({ step: step[1], instruction: step[2], cached: false, output: [] });
+        continue;
+      }
+
+      const built = /^Successfully built ([0-9a-f]+)/.exec(line);
+      if (built) {
+        imageId ??= built[1];
+        continue;
+      }
+
+      const tagged = /^Successfully tagged (.+)$/.exec(line);
+      if (tagged) {
+        tags.push(tagged[1].trim());
+        continue;
+      }
+
+      if (/^(\[WARNING\]|WARNING:)/.test(line)) {
+        warnings.push(line);
+        continue;
+      }
+
+      addOutput(line);
+    }
+  }
+
+  return { success: !error && imageId !== undefined, imageId, tags, steps, warnings, error };
+}
+
+/**
+ * Summarize the progress stream of an image pull or push into the final status of
+ * each layer, the transferred size and the image digest.
+ *
+ * The endpoints respond with 200 before the transfer starts, so failures are only
+ * reported in the stream; they are thrown as a DockerApiError.
+ */
+export function parseTransferProgress(
+  messages: ProgressMessage[],
+  operation: 'pull' | 'push',
+  image: string
+): ImageTransferResult {
+  const layers = new Map<string, LayerProgress>();
+  let status: string | undefined;
+  let digest: string | undefined;
+
+  for (const message of messages) {
+    if (message.error || message.errorDetail) {
+      throw new DockerApiError(
+        `Failed to ${operation} ${image}: ${message.errorDetail?.message ?? message.error}`,
+        undefined,
+        `${operation.toUpperCase()}_FAILED`
+      );
+    }
+
+    const auxDigest = message.aux?.Digest;
+    if (typeof auxDigest === 'string') {
+      digest = auxDigest;
+      continue;
+    }
+
+    const text = message.status ?? '';
+    const digestMatch = /(?:^|\s)digest: (sha256:[0-9a-f]+)/i.exec(text);
+    if (digestMatch) {
+      digest ??= digestMatch[1];
+      if (operation === 'push') status = text;
+      continue;
+    }
+
+    // Layer messages carry the layer ID; "Pulling from" carries the tag instead
+    if (message.id && !text.startsWith('Pulling from')) {
+      const layer = layers.get(message.id) ?? { id: message.id, status: text };
+      layer.status = text;
+      const total = message.progressDetail?.total;
+      if (total && total > (layer.bytes ?? 0)) {
+        layer.bytes = total;
+      }
+      layers.set(message.id, layer);
+    } else if (text.startsWith('Status: ')) {
+      status = text.slice('Status: '.length);
+    }
+  }
+
+  const items = [...layers.values()];
+  return {
+    image,
+    status,
+    digest,
+    layers: items,
+    totalBytes: items.reduce((sum, layer) => sum + (layer.bytes ?? 0), 0),
+  };
+}
+
+/**
+ * Collect the images reported by an image load. Errors in the stream are thrown as
+ * a DockerApiError.
+ */
+export function parseLoadOutput(messages: ProgressMessage[]): ImageLoadResult {
+  const loaded: string[] = [];
+  for (const message of messages) {
+    if (message.error || message.errorDetail) {
+      throw new DockerApiError(
+        `Failed to load images: ${message.errorDetail?.message ?? message.error}`,
+        undefined,
+        'LOAD_FAILED'
+      );
+    }
+    for (const line of (message.stream ?? '').split('\n')) {
+      const match = /^Loaded image(?: ID)?: (.+)$/.exec(line.trim());
+      if (match) loaded.push(match[1]);
+    }
+  }
+  return { loaded };
+}
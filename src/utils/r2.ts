@@ -0,0 +1,146 @@
+/**
+ * R2 Utilities
+ *
+ * Helpers for storing Docker artifacts (container exports, image tarballs, volume
+ * backups) in the DOCKER_ARTIFACTS R2 bucket binding.
+ */
+
+import { DockerApiError } from './errors.js';
+import { concatBytes } from './streams.js';
+
+/**
+ * Size of each part of a multipart upload. R2 requires parts of at least 5 MiB and
+ * the same size for every part except the last.
+ */
+const PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Result of storing a stream in R2
+ */
+export interface ArtifactUploadResult {
+  key: string;
+  size: number;
+  etag: string;
+}
+
+/**
+ * Metadata stored with an artifact
+ */
+export interface ArtifactUploadOptions {
+  contentType?: string;
+  customMetadata?: Record<string, string>;
+}
+
+/**
+ * Return the artifact bucket, or fail when the binding is not configured
+ */
+export function requireArtifactBucket(bucket?: R2Bucket): R2Bucket {
+  if (!bucket) {
+    throw new DockerApiError(
+      'Artifact storage is not configured. Bind an R2 bucket as DOCKER_ARTIFACTS.',
+      501,
+      'NOT_CONFIGURED'
+    );
+  }
+  return bucket;
+}
+
+/**
+ * Store a stream of unknown length in R2.
+ *
+ * Small streams are stored with a single put; larger ones are uploaded in parts as
+ * they arrive, so at most one part is held in memory. A failed upload is aborted.
+ */
+export async function uploadStream(
+  bucket: R2Bucket,
+  key: string,
+  stream: ReadableStream<Uint8Array>,
+  options: ArtifactUploadOptions = {}
+): Promise<ArtifactUploadResult> {
+  const metadata = {
+    httpMetadata: options.contentType ? { contentType: options.contentType } : undefined,
+    customMetadata: options.customMetadata,
+  };
+  const reader = stream.getReader();
+  const parts: R2UploadedPart[] = [];
+  let upload: R2MultipartUpload | undefined;
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  let size = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending.push(value);
+      pendingBytes += value.byteLength;
+      size += value.byteLength;
+
+      if (pendingBytes >= PART_SIZE) {
+        let buffer = concatBytes(pending, pendingBytes);
+        upload ??= await bucket.createMultipartUpload(key, metadata);
+        while (buffer.byteLength >= PART_SIZE) {
+          parts.push(await upload.uploadPart(parts.length + 1, buffer.slice(0, PART_SIZE)));
+          buffer = buffer.subarray(PART_SIZE);
+        }
+        pending = [buffer];
+        pendingBytes = buffer.byteLength;
+      }
+    }
+
+    const rest = concatBytes(pending, pendingBytes);
+    if (!upload) {
+      const object = await bucket.put(key, rest, metadata);
+      return { key, size, etag: object?.etag ?? '' };
+    }
+
+    if (rest.byteLength > 0) {
+      parts.push(await upload.uploadPart(parts.length + 1, rest));
+    }
+    const object = await upload.complete(parts);
+    return { key, size, etag: object.etag };
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    await upload?.abort().catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Build a timestamped object key, e.g. "exports/web/2024-01-02T15-04-05Z.tar"
+ */
+export function artifactKey(prefix: string, name: string, extension: string): string {
+  const safeName = name.replace(/^\/+/, '').replace(/[^A-Za-z0-9._-]+/g, '_');
+  const timestamp = new Date()
+    .toISOString()
+    .replace(/:/g, '-')
+    .replace(/\.\d+Z$/, 'Z');
+  return `${prefix}/${safeName}/${timestamp}.${extension}`;
+}
+
+/**
+ * A pass-through stream that computes the SHA-256 digest ("sha256:<hex>") of the
+ * bytes flowing through it. The digest resolves once the stream has been read to
+ * the end.
+ */
+export function sha256Stream(): {
+  stream: TransformStream<Uint8Array, Uint8Array>;
+  digest: Promise<string>;
+} {
+  const digester = new crypto.DigestStream('SHA-256');
+  const writer = digester.getWriter();
+  const stream = new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      await writer.write(chunk);
+      controller.enqueue(chunk);
+    },
+    async flush() {
+      await writer.close();
+    },
+  });
+  const digest = digester.digest.then((hash) => {
+    const hex = [...new Uint8Array(hash)].map((b) => b.toString(16).padStart(2, '0')).join('');
+    return `sha256:${hex}`;
+  });
+  return { stream, digest };
+}
@@ -0,0 +1,229 @@
+/**
+ * Registry Utilities
+ *
+ * Helpers for the OCI Distribution (registry v2) API: image reference hosts, auth
+ * challenges, pagination links, and conversion of manifests and image configs.
+ */
+
+import type {
+  RegistryDescriptor,
+  RegistryImageConfig,
+  RegistryManifest,
+  RegistryPlatform,
+} from '../types/entities.js';
+
+/**
+ * Manifest media types accepted when fetching manifests, indexes first so that
+ * multi-arch tags return their manifest list
+ */
+export const MANIFEST_MEDIA_TYPES = [
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+  'application/vnd.oci.image.manifest.v1+json',
+  'application/vnd.docker.distribution.manifest.v2+json',
+];
+
+const INDEX_MEDIA_TYPES = new Set(MANIFEST_MEDIA_TYPES.slice(0, 2));
+
+/** Host names of the Docker Hub registry */
+const DOCKER_HUB_HOSTS = new Set(['docker.io', 'index.docker.io', 'registry-1.docker.io']);
+
+/**
+ * Registry host of an image reference ("nginx" -> "docker.io",
+ * "registry.example.com:5000/team/app:1.0" -> "registry.example.com:5000")
+ */
+export function registryHost(image: string): string {
+  const slash = image.indexOf('/');
+  if (slash === -1) return 'docker.io';
+  const first = image.slice(0, slash);
+  // The first segment is a host only if it looks like one, as in `docker pull`
+  if (!/[.:]/.test(first) && first !== 'localhost') return 'docker.io';
+  return DOCKER_HUB_HOSTS.has(first) ? 'docker.io' : first;
+}
+
+/**
+ * Split an image reference into repository and tag (or digest).
+ *
+ * "nginx" -> nginx:latest, "registry:5000/app:1.2" -> registry:5000/app:1.2,
+ * "alpine@sha256:..." -> alpine with the digest as tag.
+ */
+export function parseImageReference(image: string): { name: string; tag: string } {
+  const at = image.indexOf('@');
+  if (at !== -1) {
+    return { name: image.slice(0, at), tag: image.slice(at + 1) };
+  }
+  const colon = image.lastIndexOf(':');
+  if (colon > image.lastIndexOf('/')) {
+    return { name: image.slice(0, colon), tag: image.slice(colon + 1) };
+  }
+  return { name: image, tag: 'latest' };
+}
+
+/**
+ * Host (and port) of a registry URL, e.g. "https://registry.example.com/v2/" ->
+ * "registry.example.com"
+ */
+export function registryUrlHost(url: string): string {
+  const host = url.replace(/^https?:\/\//, '').split('/')[0];
+  return DOCKER_HUB_HOSTS.has(host) ? 'docker.io' : host;
+}
+
+/**
+ * A parsed WWW-Authenticate challenge
+ */
+export interface AuthChallenge {
+  scheme: 'basic' | 'bearer' | string;
+  params: Record<string, string>;
+}
+
+/**
+ * Parse a WWW-Authenticate header, e.g.
+ * `Bearer realm="https://auth.example.com/token",service="registry",scope="..."`
+ */
+export function parseAuthChallenge(header: string): AuthChallenge {
+  const [scheme = '', ...rest] = header.trim().split(/\s+/);
+  const params: Record<string, string> = {};
+  for (const match of rest.join(' ').matchAll(/(\w+)="([^"]*)"/g)) {
+    params[match[1].toLowerCase()] = match[2];
+  }
+  return { scheme: scheme.toLowerCase(), params };
+}
+
+/**
+ * The `last` marker of the next page from a Link header
+ * (`</v2/_catalog?last=b&n=2>; rel="next"`)
+ */
+export function nextPageMarker(link: string | null): string | undefined {
+  const next = link?.match(/<([^>]*)>\s*;\s*rel="?next"?/);
+  if (!next) return undefined;
+  return new URL(next[1], 'http://registry').searchParams.get('last') ?? undefined;
+}
+
+/**
+ * Path of a repository in registry URLs; slashes separate path segments
+ */
+export function repositoryPath(repository: string): string {
+  return repository.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Content digest of a response body, for registries that omit Docker-Content-Digest
+ */
+export async function sha256Digest(bytes: Uint8Array): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return `sha256:${[...hash].map((b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Convert a manifest or manifest list
+ */
+export function toRegistryManifest(
+  body: Record<string, unknown>,
+  meta: { repository: string; reference: string; digest: string; mediaType: string }
+): RegistryManifest {
+  const mediaType = (body.mediaType as string | undefined) ?? meta.mediaType;
+  const descriptors = (value: unknown) =>
+    ((value as Array<Record<string, unknown>> | undefined) ?? []).map(toDescriptor);
+
+  if (INDEX_MEDIA_TYPES.has(mediaType) || Array.isArray(body.manifests)) {
+    return {
+      ...meta,
+      mediaType,
+      kind: 'index',
+      manifests: descriptors(body.manifests),
+      annotations: body.annotations as Record<string, string> | undefined,
+    };
+  }
+
+  const layers = descriptors(body.layers);
+  return {
+    ...meta,
+    mediaType,
+    kind: 'image',
+    config: body.config ? toDescriptor(body.config as Record<string, unknown>) : undefined,
+    layers,
+    totalSize: layers.reduce((sum, l) => sum + l.size, 0),
+    annotations: body.annotations as Record<string, string> | undefined,
+  };
+}
+
+/**
+ * Pick the manifest for a platform ("os/architecture[/variant]") from an index.
+ * Attestation manifests (platform unknown/unknown) are never selected.
+ */
+export function selectPlatform(
+  manifests: RegistryDescriptor[],
+  platform: string
+): RegistryDescriptor | undefined {
+  const [os, architecture, variant] = platform.split('/');
+  const candidates = manifests.filter(
+    (m) => m.platform?.os === os && m.platform?.architecture === architecture
+  );
+  return (
+    candidates.find((m) => (variant ? m.platform?.variant === variant : !m.platform?.variant)) ??
+    candidates[0]
+  );
+}
+
+/**
+ * Format a platform as "os/architecture[/variant]"
+ */
+export function formatPlatform(platform: RegistryPlatform): string {
+  return [platform.os, platform.architecture, platform.variant].filter(Boolean).join('/');
+}
+
+/**
+ * Convert an OCI / Docker image config blob
+ */
+export function toRegistryImageConfig(
+  body: Record<string, unknown>,
+  meta: { repository: string; reference: string; manifestDigest: string; configDigest: string }
+): RegistryImageConfig {
+  const config = (body.config ?? {}) as Record<string, unknown>;
+  const rootfs = (body.rootfs ?? {}) as { diff_ids?: string[] };
+  const history = (body.history ?? []) as Array<Record<string, unknown>>;
+
+  return {
+    ...meta,
+    architecture: body.architecture as string,
+    os: body.os as string,
+    variant: body.variant as string | undefined,
+    created: body.created as string | undefined,
+    author: body.author as string | undefined,
+    config: {
+      env: config.Env as string[] | undefined,
+      entrypoint: config.Entrypoint as string[] | undefined,
+      cmd: config.Cmd as string[] | undefined,
+      user: (config.User as string | undefined) || undefined,
+      workingDir: (config.WorkingDir as string | undefined) || undefined,
+      exposedPorts: config.ExposedPorts
+        ? Object.keys(config.ExposedPorts as Record<string, unknown>)
+        : undefined,
+      labels: config.Labels as Record<string, string> | undefined,
+    },
+    diffIds: rootfs.diff_ids ?? [],
+    history: history.map((h) => ({
+      created: h.created as string | undefined,
+      createdBy: h.created_by as string | undefined,
+      emptyLayer: h.empty_layer as boolean | undefined,
+      comment: h.comment as string | undefined,
+    })),
+  };
+}
+
+function toDescriptor(value: Record<string, unknown>): RegistryDescriptor {
+  const platform = value.platform as Record<string, unknown> | undefined;
+  return {
+    mediaType: value.mediaType as string,
+    digest: value.digest as string,
+    size: value.size as number,
+    platform: platform
+      ? {
+          architecture: platform.architecture as string,
+          os: platform.os as string,
+          variant: platform.variant as string | undefined,
+        }
+      : undefined,
+    annotations: value.annotations as Record<string, string> | undefined,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Stats Utilities
+ *
+ * Derived resource usage figures (CPU%, memory%, I/O rates) computed from the raw
+ * samples returned by the container stats endpoint, using the same formulas as
+ * `docker stats`.
+ */
+
+import type { ContainerStats, ContainerStatsSummary } from '../types/entities.js';
+
+/**
+ * CPU usage of a single sample, from its cpu/precpu deltas (100% = one CPU)
+ */
+export function computeCpuPercent(stats: ContainerStats): number {
+  const cpu = stats.cpuStats;
+  const precpu = stats.precpuStats;
+  const cpuDelta = (cpu?.cpuUsage?.totalUsage ?? 0) - (precpu?.cpuUsage?.totalUsage ?? 0);
+  const systemDelta = (cpu?.systemCpuUsage ?? 0) - (precpu?.systemCpuUsage ?? 0);
+  if (cpuDelta <= 0 || systemDelta <= 0) return 0;
+  return (cpuDelta / systemDelta) * onlineCpus(stats) * 100;
+}
+
+/**
+ * Page cache included in the reported memory usage.
+ *
+ * cgroup v1 reports total_inactive_file, cgroup v2 inactive_file; older daemons only
+ * report cache.
+ */
+export function computeMemoryCache(stats: ContainerStats): number {
+  const memory = stats.memoryStats?.stats ?? {};
+  const cache = memory.total_inactive_file ?? memory.inactive_file ?? memory.cache ?? 0;
+  return cache < (stats.memoryStats?.usage ?? 0) ? cache : 0;
+}
+
+/**
+ * Summarize one or more samples of the same container.
+ *
+ * CPU and memory figures are averaged over the samples; network and block I/O rates
+ * are computed between the first and last sample.
+ */
+export function summarizeStats(samples: ContainerStats[]): ContainerStatsSummary {
+  if (samples.length === 0) {
+    throw new Error('At least one stats sample is required');
+  }
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const seconds = (Date.parse(last.read) - Date.parse(first.read)) / 1000;
+  const rate = (from: number, to: number) =>
+    samples.length > 1 && seconds > 0 ? round(Math.max(0, to - from) / seconds) : null;
+
+  const memory = samples.map((s) => {
+    const cache = computeMemoryCache(s);
+    const usage = (s.memoryStats?.usage ?? 0) - cache;
+    const limit = s.memoryStats?.limit ?? 0;
+    return { usage, cache, limit, percent: limit > 0 ? (usage / limit) * 100 : 0 };
+  });
+  const firstNet = networkTotals(first);
+  const lastNet = networkTotals(last);
+  const firstBlock = blockTotals(first);
+  const lastBlock = blockTotals(last);
+
+  return {
+    id: last.id ?? '',
+    name: (last.name ?? '').replace(/^\//, ''),
+    read: last.read,
+    samples: samples.length,
+    windowSeconds: round(Math.max(0, seconds)),
+    cpuPercent: round(average(samples.map(computeCpuPercent))),
+    onlineCpus: onlineCpus(last),
+    memoryUsage: Math.round(average(memory.map((m) => m.usage))),
+    memoryCache: Math.round(average(memory.map((m) => m.cache))),
+    memoryLimit: memory[memory.length - 1].limit,
+    memoryPercent: round(average(memory.map((m) => m.percent))),
+    networkRxBytes: lastNet.rx,
+    networkTxBytes: lastNet.tx,
+    networkRxRate: rate(firstNet.rx, lastNet.rx),
+    networkTxRate: rate(firstNet.tx, lastNet.tx),
+    blockReadBytes: lastBlock.read,
+    blockWriteBytes: lastBlock.write,
+    blockReadRate: rate(firstBlock.read, lastBlock.read),
+    blockWriteRate: rate(firstBlock.write, lastBlock.write),
+    pids: last.pidsStats?.current ?? 0,
+  };
+}
+
+function onlineCpus(stats: ContainerStats): number {
+  return stats.cpuStats?.onlineCpus || stats.cpuStats?.cpuUsage?.percpuUsage?.length || 1;
+}
+
+function networkTotals(stats: ContainerStats): { rx: number; tx: number } {
+  let rx = 0;
+  let tx = 0;
+  for (const network of Object.values(stats.networks ?? {})) {
+    rx += network.rxBytes ?? 0;
+    tx += network.txBytes ?? 0;
+  }
+  return { rx, tx };
+}
+
+function blockTotals(stats: ContainerStats): { read: number; write: number } {
+  let read = 0;
+  let write = 0;
+  for (const entry of stats.blkioStats?.ioServiceBytesRecursive ?? []) {
+    const op = entry.op.toLowerCase();
+    if (op === 'read') read += entry.value;
+    if (op === 'write') write += entry.value;
+  }
+  return { read, write };
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
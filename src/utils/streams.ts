@@ -0,0 +1,245 @@
+/**
+ * Stream Utilities
+ *
+ * Helpers for reading and decoding the binary streams returned by the Docker Engine API.
+ */
+
+import type { LogEntry, LogStream } from '../types/entities.js';
+
+/**
+ * Size of the header that prefixes every frame of a multiplexed stream
+ */
+const FRAME_HEADER_SIZE = 8;
+
+const STREAM_TYPES: Record<number, LogStream> = {
+  0: 'stdin',
+  1: 'stdout',
+  2: 'stderr',
+};
+
+/**
+ * A single frame of a multiplexed stream
+ */
+export interface StreamFrame {
+  stream: LogStream;
+  payload: Uint8Array;
+}
+
+/**
+ * Read a response body to the end, or until the deadline passes.
+ *
+ * When a deadline is given the stream is cancelled once it expires and the bytes
+ * received so far are returned, which bounds followed (streaming) endpoints.
+ */
+export async function readBody(
+  body: ReadableStream<Uint8Array> | null,
+  deadlineMs?: number
+): Promise<Uint8Array> {
+  if (!body) return new Uint8Array(0);
+
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const timer =
+    deadlineMs !== undefined
+      ? setTimeout(() => {
+          reader.cancel().catch(() => undefined);
+        }, deadlineMs)
+      : undefined;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      total += value.byteLength;
+    }
+  } finally {
+    if (timer !== undefined) clearTimeout(timer);
+  }
+
+  return concatBytes(chunks, total);
+}
+
+/**
+ * Read a response body up to a size limit.
+ *
+ * Once more than maxBytes have been received the stream is cancelled and the first
+ * maxBytes bytes are returned with truncated set.
+ */
+export async function readBodyLimited(
+  body: ReadableStream<Uint8Array> | null,
+  maxBytes: number
+): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  if (!body) return { bytes: new Uint8Array(0), truncated: false };
+
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      return { bytes: concatBytes(chunks, total).subarray(0, maxBytes), truncated: true };
+    }
+  }
+
+  return { bytes: concatBytes(chunks, total), truncated: false };
+}
+
+/**
+ * Concatenate byte chunks into a single buffer
+ */
+export function concatBytes(chunks: Uint8Array[], total?: number): Uint8Array {
+  const size = total ?? chunks.reduce((sum, c) => sum + c.byteLength, 0);
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Convert in chunks to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.byteLength; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 (standard or URL-safe alphabet) into bytes
+ */
+export function fromBase64(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/').replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Check whether a buffer looks like a multiplexed (non-TTY) stream.
+ *
+ * Each frame starts with a stream type byte (0-2) followed by three zero bytes.
+ */
+export function isMultiplexedStream(bytes: Uint8Array, contentType?: string | null): boolean {
+  if (contentType?.includes('multiplexed-stream')) return true;
+  if (contentType?.includes('raw-stream')) return false;
+  if (bytes.byteLength < FRAME_HEADER_SIZE) return false;
+  return bytes[0] <= 2 && bytes[1] === 0 && bytes[2] === 0 && bytes[3] === 0;
+}
+
+/**
+ * Split a multiplexed stream into its frames.
+ *
+ * A trailing, incomplete frame (e.g. when a followed stream was cut off) is dropped.
+ */
+export function demultiplexStream(bytes: Uint8Array): StreamFrame[] {
+  const frames: StreamFrame[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  while (offset + FRAME_HEADER_SIZE <= bytes.byteLength) {
+    const stream = STREAM_TYPES[bytes[offset]] ?? 'stdout';
+    const size = view.getUint32(offset + 4);
+    const start = offset + FRAME_HEADER_SIZE;
+    if (start + size > bytes.byteLength) break;
+    frames.push({ stream, payload: bytes.subarray(start, start + size) });
+    offset = start + size;
+  }
+
+  return frames;
+}
+
+/**
+ * Decode a log stream into individual log lines.
+ *
+ * Multiplexed streams are split into stdout/stderr entries; TTY streams are reported
+ * as stdout. When timestamps were requested, the leading RFC 3339 timestamp of each
+ * line is parsed into the entry's timestamp field.
+ */
+export function parseLogStream(
+  bytes: Uint8Array,
+  options: { contentType?: string | null; timestamps?: boolean } = {}
+): LogEntry[] {
+  const frames = isMultiplexedStream(bytes, options.contentType)
+    ? demultiplexStream(bytes)
+    : [{ stream: 'stdout' as const, payload: bytes }];
+
+  // One decoder per stream: a multibyte character may be split across two frames
+  const decoders: Record<LogStream, TextDecoder> = {
+    stdin: new TextDecoder(),
+    stdout: new TextDecoder(),
+    stderr: new TextDecoder(),
+  };
+  const pending: Partial<Record<LogStream, string>> = {};
+  const entries: LogEntry[] = [];
+
+  const emit = (stream: LogStream, line: string) => {
+    entries.push(toLogEntry(stream, line.replace(/\r$/, ''), options.timestamps));
+  };
+
+  for (const frame of frames) {
+    const text =
+      (pending[frame.stream] ?? '') +
+      decoders[frame.stream].decode(frame.payload, { stream: true });
+    const lines = text.split('\n');
+    pending[frame.stream] = lines.pop() ?? '';
+    for (const line of lines) {
+      emit(frame.stream, line);
+    }
+  }
+
+  for (const [stream, decoder] of Object.entries(decoders) as Array<[LogStream, TextDecoder]>) {
+    const rest = (pending[stream] ?? '') + decoder.decode();
+    if (rest) emit(stream, rest);
+  }
+
+  return entries;
+}
+
+function toLogEntry(stream: LogStream, line: string, timestamps?: boolean): LogEntry {
+  if (timestamps) {
+    const space = line.indexOf(' ');
+    const candidate = space > 0 ? line.slice(0, space) : line;
+    if (!Number.isNaN(Date.parse(candidate))) {
+      return { stream, timestamp: candidate, message: space > 0 ? line.slice(space + 1) : '' };
+    }
+  }
+  return { stream, message: line };
+}
+
+/**
+ * Parse a time argument into Unix seconds.
+ *
+ * Accepts Unix timestamps ("1700000000", "1700000000.5"), RFC 3339 dates
+ * ("2024-01-02T15:04:05Z") and durations relative to now ("30s", "15m", "2h", "1d").
+ */
+export function parseTimeArg(value: string, now = Date.now()): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number.parseFloat(trimmed);
+  }
+
+  const relative = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/.exec(trimmed);
+  if (relative) {
+    const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+    const offset = Number.parseFloat(relative[1]) * units[relative[2]];
+    return (now - offset) / 1000;
+  }
+
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? undefined : parsed / 1000;
+}
@@ -0,0 +1,274 @@
+/**
+ * Tar Utilities
+ *
+ * Minimal ustar reader and writer used for the container archive endpoints and
+ * build contexts. Supports GNU long names and PAX path/size records when reading,
+ * and PAX records for long names when writing.
+ */
+
+import { concatBytes } from './streams.js';
+
+const BLOCK_SIZE = 512;
+
+const TYPE_FLAGS: Record<string, TarEntryType> = {
+  '0': 'file',
+  '\0': 'file',
+  '1': 'hardlink',
+  '2': 'symlink',
+  '5': 'directory',
+};
+
+export type TarEntryType = 'file' | 'directory' | 'symlink' | 'hardlink' | 'other';
+
+/**
+ * An entry read from a tar archive
+ */
+export interface TarEntry {
+  name: string;
+  type: TarEntryType;
+  size: number;
+  mode: number;
+  /** Modification time in Unix seconds */
+  mtime: number;
+  uid: number;
+  gid: number;
+  linkName?: string;
+  /** File contents (only for regular files, and only when requested) */
+  data?: Uint8Array;
+}
+
+/**
+ * A file or directory to add to a tar archive
+ */
+export interface TarInput {
+  name: string;
+  /** File contents; strings are encoded as UTF-8 */
+  data?: Uint8Array | string;
+  type?: 'file' | 'directory';
+  mode?: number;
+  /** Modification time in Unix seconds (default: now) */
+  mtime?: number;
+  uid?: number;
+  gid?: number;
+}
+
+/**
+ * Result of parsing a (possibly truncated) tar archive
+ */
+export interface TarParseResult {
+  entries: TarEntry[];
+  /** True when the archive ended in the middle of an entry */
+  truncated: boolean;
+}
+
+/**
+ * Build a tar archive from a list of files and directories
+ */
+export function createTar(inputs: TarInput[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const blocks: Uint8Array[] = [];
+  const now = Math.floor(Date.now() / 1000);
+
+  for (const input of inputs) {
+    const type = input.type ?? 'file';
+    const name =
+      input.name.replace(/^\/+/, '') +
+      (type === 'directory' && !input.name.endsWith('/') ? '/' : '');
+    const data =
+      type === 'directory'
+        ? new Uint8Array(0)
+        : typeof input.data === 'string'
+          ? encoder.encode(input.data)
+          : (input.data ?? new Uint8Array(0));
+    const header = {
+      mode: input.mode ?? (type === 'directory' ? 0o755 : 0o644),
+      mtime: input.mtime ?? now,
+      uid: input.uid ?? 0,
+      gid: input.gid ?? 0,
+    };
+
+    if (encoder.encode(name).byteLength > 100) {
+      const record = paxRecord('path', name);
+      blocks.push(
+        writeHeader({ ...header, name: 'PaxHeader', size: record.byteLength, typeFlag: 'x' }),
+        padToBlock(record)
+      );
+    }
+
+    blocks.push(
+      writeHeader({
+        ...header,
+        name,
+        size: data.byteLength,
+        typeFlag: type === 'directory' ? '5' : '0',
+      }),
+      padToBlock(data)
+    );
+  }
+
+  blocks.push(new Uint8Array(BLOCK_SIZE * 2));
+  return concatBytes(blocks);
+}
+
+/**
+ * Parse a tar archive.
+ *
+ * Parsing stops at the end-of-archive marker or at the end of the buffer; an entry cut
+ * off by the end of the buffer marks the result as truncated.
+ */
+export function parseTar(
+  bytes: Uint8Array,
+  options: { includeData?: boolean } = {}
+): TarParseResult {
+  const decoder = new TextDecoder();
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+  let longLink: string | undefined;
+  let pax: Record<string, string> = {};
+
+  while (offset + BLOCK_SIZE <= bytes.byteLength) {
+    const header = bytes.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((b) => b === 0)) {
+      return { entries, truncated: false };
+    }
+
+    const typeFlag = String.fromCharCode(header[156]);
+    const size = pax.size !== undefined ? Number(pax.size) : readNumber(header, 124, 12);
+    const start = offset + BLOCK_SIZE;
+    const end = start + size;
+    if (end > bytes.byteLength) {
+      return { entries, truncated: true };
+    }
+    const content = bytes.subarray(start, end);
+    offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (typeFlag === 'L') {
+      longName = readString(content, 0, content.byteLength, decoder);
+      continue;
+    }
+    if (typeFlag === 'K') {
+      longLink = readString(content, 0, content.byteLength, decoder);
+      continue;
+    }
+    if (typeFlag === 'x') {
+      pax = parsePaxRecords(decoder.decode(content));
+      continue;
+    }
+    if (typeFlag === 'g') {
+      continue;
+    }
+
+    const prefix = readString(header, 345, 155, decoder);
+    const baseName = readString(header, 0, 100, decoder);
+    const name = pax.path ?? longName ?? (prefix ? `${prefix}/${baseName}` : baseName);
+    const type = TYPE_FLAGS[typeFlag] ?? 'other';
+    const linkName = pax.linkpath ?? longLink ?? readString(header, 157, 100, decoder);
+
+    entries.push({
+      name,
+      type,
+      size,
+      mode: readNumber(header, 100, 8),
+      mtime: pax.mtime !== undefined ? Math.floor(Number(pax.mtime)) : readNumber(header, 136, 12),
+      uid: readNumber(header, 108, 8),
+      gid: readNumber(header, 116, 8),
+      linkName: linkName || undefined,
+      data: options.includeData && type === 'file' ? content : undefined,
+    });
+
+    longName = undefined;
+    longLink = undefined;
+    pax = {};
+  }
+
+  return { entries, truncated: offset < bytes.byteLength };
+}
+
+function writeHeader(fields: {
+  name: string;
+  mode: number;
+  uid: number;
+  gid: number;
+  size: number;
+  mtime: number;
+  typeFlag: string;
+}): Uint8Array {
+  const header = new Uint8Array(BLOCK_SIZE);
+  const encoder = new TextEncoder();
+  const put = (value: string, offset: number, length: number) => {
+    header.set(encoder.encode(value).subarray(0, length), offset);
+  };
+  const octal = (value: number, offset: number, length: number) => {
+    put(value.toString(8).padStart(length - 1, '0'), offset, length - 1);
+  };
+
+  put(fields.name, 0, 100);
+  octal(fields.mode, 100, 8);
+  octal(fields.uid, 108, 8);
+  octal(fields.gid, 116, 8);
+  octal(fields.size, 124, 12);
+  octal(fields.mtime, 136, 12);
+  put(fields.typeFlag, 156, 1);
+  put('ustar\u000000', 257, 8);
+
+  // The checksum is computed with the checksum field itself filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, b) => sum + b, 0);
+  put(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 8);
+
+  return header;
+}
+
+function paxRecord(key: string, value: string): Uint8Array {
+  const encoder = new TextEncoder();
+  const body = ` ${key}=${value}\n`;
+  // The length prefix counts itself, so grow it until it is stable
+  let length = encoder.encode(body).byteLength;
+  while (String(length).length + encoder.encode(body).byteLength !== length) {
+    length = String(length).length + encoder.encode(body).byteLength;
+  }
+  return encoder.encode(`${length}${body}`);
+}
+
+function parsePaxRecords(text: string): Record<string, string> {
+  const records: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const match = /^\d+ ([^=]+)=(.*)$/.exec(line);
+    if (match) records[match[1]] = match[2];
+  }
+  return records;
+}
+
+function readString(
+  block: Uint8Array,
+  offset: number,
+  length: number,
+  decoder: TextDecoder
+): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readNumber(block: Uint8Array, offset: number, length: number): number {
+  // Base-256 encoding (GNU) for values that do not fit in octal
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + block[offset + i];
+    }
+    return value;
+  }
+  const text = String.fromCharCode(...block.subarray(offset, offset + length)).replace(
+    /[\0 ]+/g,
+    ''
+  );
+  return text ? Number.parseInt(text, 8) : 0;
+}
+
+function padToBlock(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil(data.byteLength / BLOCK_SIZE) * BLOCK_SIZE);
+  padded.set(data);
+  return padded;
+}
@@ -0,0 +1,118 @@
+/**
+ * Topology Utilities
+ *
+ * Rendering of a network topology graph (networks, containers, services and their
+ * attachments) as Mermaid, Graphviz DOT or a JSON adjacency list.
+ */
+
+import type { NetworkTopology, TopologyEdge, TopologyNode } from '../types/entities.js';
+
+/**
+ * Neighbours of every node, with the attributes of the connecting edge
+ */
+export function toAdjacencyList(
+  topology: NetworkTopology
+): Record<string, Array<Omit<TopologyEdge, 'from' | 'to'> & { node: string }>> {
+  const adjacency: Record<string, Array<Omit<TopologyEdge, 'from' | 'to'> & { node: string }>> = {};
+  for (const node of topology.nodes) {
+    adjacency[node.id] = [];
+  }
+  for (const { from, to, ...attributes } of topology.edges) {
+    adjacency[from]?.push({ node: to, ...attributes });
+    adjacency[to]?.push({ node: from, ...attributes });
+  }
+  return adjacency;
+}
+
+/**
+ * Render the topology as a Mermaid flowchart. Networks are drawn as hexagons,
+ * services as rounded boxes and containers as boxes.
+ */
+export function toMermaid(topology: NetworkTopology): string {
+  const ids = shortIds(topology.nodes);
+  const lines = ['graph LR'];
+
+  for (const node of topology.nodes) {
+    const label = escapeMermaid(nodeLabel(node).join('<br/>'));
+    const id = ids.get(node.id);
+    if (node.type === 'network') lines.push(`  ${id}{{"${label}"}}`);
+    else if (node.type === 'service') lines.push(`  ${id}("${label}")`);
+    else lines.push(`  ${id}["${label}"]`);
+  }
+
+  for (const edge of topology.edges) {
+    const label = escapeMermaid(edgeLabel(edge).join('<br/>'));
+    const link = edge.kind === 'task' ? '-.-' : '---';
+    const from = ids.get(edge.from);
+    const to = ids.get(edge.to);
+    lines.push(label ? `  ${from} ${link}|"${label}"| ${to}` : `  ${from} ${link} ${to}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render the topology as an undirected Graphviz graph
+ */
+export function toDot(topology: NetworkTopology): string {
+  const lines = ['graph topology {', '  rankdir=LR;', '  node [fontname="Helvetica"];'];
+
+  for (const node of topology.nodes) {
+    const shape =
+      node.type === 'network' ? 'hexagon' : node.type === 'service' ? 'component' : 'box';
+    const style = node.internal ? ', style=dashed' : '';
+    lines.push(
+      `  "${escapeDot(node.id)}" [shape=${shape}${style}, label="${escapeDot(nodeLabel(node).join('\n'))}"];`
+    );
+  }
+
+  for (const edge of topology.edges) {
+    const attributes = [`label="${escapeDot(edgeLabel(edge).join('\n'))}"`];
+    if (edge.kind === 'task') attributes.push('style=dotted');
+    lines.push(
+      `  "${escapeDot(edge.from)}" -- "${escapeDot(edge.to)}" [${attributes.join(', ')}];`
+    );
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function nodeLabel(node: TopologyNode): string[] {
+  if (node.type === 'network') {
+    const kind = [node.driver, node.internal ? 'internal' : ''].filter(Boolean).join(', ');
+    return [`${node.name} (${kind})`, ...(node.subnets ?? [])];
+  }
+  if (node.type === 'service') {
+    return [`service: ${node.name}`, ...(node.ports ?? [])];
+  }
+  return [
+    node.state && node.state !== 'running' ? `${node.name} (${node.state})` : node.name,
+    ...(node.ports ?? []),
+  ];
+}
+
+function edgeLabel(edge: TopologyEdge): string[] {
+  const label: string[] = [];
+  if (edge.vip) label.push(`VIP ${edge.vip}`);
+  if (edge.ipv4Address) label.push(edge.ipv4Address);
+  if (edge.ipv6Address) label.push(edge.ipv6Address);
+  if (edge.aliases?.length) label.push(`aliases: ${edge.aliases.join(', ')}`);
+  return label;
+}
+
+/**
+ * Mermaid node IDs may not contain most punctuation, so nodes are numbered
+ */
+function shortIds(nodes: TopologyNode[]): Map<string, string> {
+  const counters = { network: 0, container: 0, service: 0 };
+  return new Map(nodes.map((node) => [node.id, `${node.type.charAt(0)}${++counters[node.type]}`]));
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}